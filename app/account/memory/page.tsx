@@ -0,0 +1,292 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { LEARNER_FACT_KINDS, learnerFactKinds, type LearnerFactKind } from '@/lib/learnerFacts'
+
+type LearnerFact = {
+  id: string
+  kind: LearnerFactKind
+  content: string
+  source: 'conversation' | 'quiz' | 'study' | 'user'
+  expiresAt: string | null
+  updatedAt: string
+}
+
+const SOURCE_LABELS: Record<LearnerFact['source'], string> = {
+  conversation: 'From a conversation',
+  quiz: 'From quiz results',
+  study: 'From your study log',
+  user: 'Added by you'
+}
+
+// Kinds with a date
+const DATED_KINDS: LearnerFactKind[] = ['upcoming_exam', 'goal']
+
+async function loadFacts(): Promise<LearnerFact[]> {
+  const response = await fetch('/api/account/memory')
+  if (!response.ok) throw new Error('Failed to load memory')
+  const { facts } = await response.json()
+  return facts
+}
+
+// "2026-05-12" for date inputs
+function toDateInput(value: string | null) {
+  return value ? value.slice(0, 10) : ''
+}
+
+export default function MemoryPage() {
+  const [facts, setFacts] = useState<LearnerFact[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  // The fact being edited, or 'new' for the add form
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [kind, setKind] = useState<LearnerFactKind>('other')
+  const [content, setContent] = useState('')
+  const [date, setDate] = useState('')
+
+  useEffect(() => {
+    loadFacts()
+      .then(setFacts)
+      .catch(err => console.error('Error loading memory:', err))
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const startEditing = (fact: LearnerFact | null) => {
+    setEditingId(fact?.id ?? 'new')
+    setKind(fact?.kind ?? 'other')
+    setContent(fact?.content ?? '')
+    setDate(toDateInput(fact?.expiresAt ?? null))
+    setError('')
+  }
+
+  const saveFact = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    const isNew = editingId === 'new'
+
+    try {
+      const response = await fetch(isNew ? '/api/account/memory' : `/api/account/memory/${editingId}`, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind,
+          content,
+          // The end of the chosen day, in the user's time zone
+          expiresAt: DATED_KINDS.includes(kind) && date ? new Date(`${date}T23:59:59`).toISOString() : null
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save')
+        return
+      }
+
+      setEditingId(null)
+      setFacts(await loadFacts())
+    } catch (err) {
+      console.error('Error saving fact:', err)
+      setError('Failed to save. Please try again.')
+    }
+  }
+
+  const deleteFact = async (fact: LearnerFact) => {
+    try {
+      const response = await fetch(`/api/account/memory/${fact.id}`, {
+        method: 'DELETE'
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete fact')
+      }
+
+      setFacts(prev => prev.filter(f => f.id !== fact.id))
+    } catch (err) {
+      console.error('Error deleting fact:', err)
+      alert('Failed to delete. Please try again.')
+    }
+  }
+
+  const forgetEverything = async () => {
+    if (!confirm('Make the tutor forget everything it has learned about you?')) {
+      return
+    }
+
+    try {
+      const response = await fetch('/api/account/memory', {
+        method: 'DELETE'
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete memory')
+      }
+
+      setFacts([])
+    } catch (err) {
+      console.error('Error deleting memory:', err)
+      alert('Failed to delete. Please try again.')
+    }
+  }
+
+  const editForm = (
+    <form onSubmit={saveFact} className="space-y-3 px-6 py-4">
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as LearnerFactKind)}
+          className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        >
+          {learnerFactKinds.map(k => (
+            <option key={k} value={k}>{LEARNER_FACT_KINDS[k]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          required
+          maxLength={200}
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="e.g. Likes worked examples before the theory"
+          className="min-w-64 flex-1 rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        />
+        {DATED_KINDS.includes(kind) && (
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+          />
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={() => setEditingId(null)}
+          className="rounded-lg px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-indigo-600 border-r-transparent"></div>
+          <p className="mt-4 text-gray-600">Loading memory...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <header className="border-b border-gray-200 bg-white shadow-sm">
+        <div className="container mx-auto flex items-center justify-between px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="text-2xl font-bold text-indigo-600 hover:text-indigo-700"
+            >
+              TutorFlow
+            </Link>
+            <Link
+              href="/account"
+              className="text-gray-600 hover:text-gray-900"
+            >
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900">Tutor memory</h1>
+          <div className="w-6"></div>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-3xl px-6 py-8">
+        <p className="mb-6 text-sm text-gray-600">
+          The tutor keeps these notes across all your conversations, in text and voice. It picks them up from what
+          you tell it, your quiz scores and your study log. Correct anything that&apos;s wrong, or delete it.
+        </p>
+
+        <div className="rounded-lg border border-gray-200 bg-white shadow-sm">
+          {facts.length === 0 && editingId !== 'new' && (
+            <p className="px-6 py-4 text-sm text-gray-600">The tutor hasn&apos;t noted anything about you yet.</p>
+          )}
+
+          <ul className="divide-y divide-gray-200">
+            {facts.map(fact => (
+              <li key={fact.id}>
+                {editingId === fact.id ? editForm : (
+                  <div className="flex items-center justify-between gap-4 px-6 py-4">
+                    <div>
+                      <p className="text-xs font-medium uppercase tracking-wide text-indigo-600">
+                        {LEARNER_FACT_KINDS[fact.kind] ?? fact.kind}
+                      </p>
+                      <p className="text-gray-900">
+                        {fact.content}
+                        {fact.expiresAt && (
+                          <span className="text-gray-500"> · {new Date(fact.expiresAt).toLocaleDateString()}</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500">{SOURCE_LABELS[fact.source] ?? fact.source}</p>
+                    </div>
+                    <div className="flex shrink-0 gap-3">
+                      <button
+                        onClick={() => startEditing(fact)}
+                        className="text-sm font-medium text-gray-600 hover:text-indigo-600"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => deleteFact(fact)}
+                        className="text-sm font-medium text-gray-600 hover:text-red-600"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {editingId === 'new' ? (
+            <div className="border-t border-gray-200">{editForm}</div>
+          ) : (
+            <div className="border-t border-gray-200 px-6 py-4">
+              <button
+                onClick={() => startEditing(null)}
+                className="text-sm font-medium text-indigo-600 hover:text-indigo-700"
+              >
+                Add a note
+              </button>
+            </div>
+          )}
+        </div>
+
+        {facts.length > 0 && (
+          <button
+            onClick={forgetEverything}
+            className="mt-6 text-sm font-medium text-gray-600 hover:text-red-600"
+          >
+            Forget everything
+          </button>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,579 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { cache } from '@/lib/cache'
+
+type Account = {
+  id: string
+  email: string
+  name: string | null
+  emailVerifiedAt: string | null
+  deleteAfter: string | null
+  createdAt: string
+}
+
+type ApiToken = {
+  id: string
+  name: string
+  prefix: string
+  scopes: string[]
+  lastUsedAt: string | null
+  expiresAt: string | null
+  createdAt: string
+}
+
+type ApiScope = {
+  scope: string
+  description: string
+}
+
+type Session = {
+  id: string
+  device: string
+  ipAddress: string | null
+  createdAt: string
+  lastSeenAt: string
+  current: boolean
+}
+
+export default function AccountPage() {
+  const router = useRouter()
+  const [account, setAccount] = useState<Account | null>(null)
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [verificationSent, setVerificationSent] = useState(false)
+  const [deletePassword, setDeletePassword] = useState('')
+  const [deleteError, setDeleteError] = useState('')
+  // From the emailed link that confirms deletion without a password
+  const [deleteToken, setDeleteToken] = useState<string | null>(null)
+  const [deleteEmailSent, setDeleteEmailSent] = useState(false)
+  const [apiTokens, setApiTokens] = useState<ApiToken[]>([])
+  const [apiScopes, setApiScopes] = useState<ApiScope[]>([])
+  const [tokenName, setTokenName] = useState('')
+  const [tokenScopes, setTokenScopes] = useState<string[]>([])
+  const [tokenExpiry, setTokenExpiry] = useState('90')
+  const [newToken, setNewToken] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadAccount()
+    setDeleteToken(new URLSearchParams(window.location.search).get('token'))
+  }, [])
+
+  const loadAccount = async () => {
+    try {
+      const [accountResponse, sessionsResponse, tokensResponse] = await Promise.all([
+        fetch('/api/account'),
+        fetch('/api/auth/sessions'),
+        fetch('/api/auth/tokens')
+      ])
+      const accountData = await accountResponse.json()
+      const sessionsData = await sessionsResponse.json()
+      const tokensData = await tokensResponse.json()
+
+      setAccount(accountData.user || null)
+      setSessions(sessionsData.sessions || [])
+      setApiTokens(tokensData.tokens || [])
+      setApiScopes(tokensData.scopes || [])
+    } catch (error) {
+      console.error('Error loading account:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const resendVerification = async () => {
+    try {
+      const response = await fetch('/api/auth/verify-email/request', { method: 'POST' })
+
+      if (!response.ok) {
+        throw new Error('Failed to send verification email')
+      }
+
+      setVerificationSent(true)
+    } catch (error) {
+      console.error('Error sending verification email:', error)
+      alert('Failed to send verification email. Please try again.')
+    }
+  }
+
+  const signedOut = () => {
+    cache.clear() // Cached data belongs to the signed-out user
+    router.push('/login')
+  }
+
+  const revokeSession = async (session: Session) => {
+    if (session.current && !confirm('This will sign you out on this device. Continue?')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/auth/sessions/${session.id}`, {
+        method: 'DELETE'
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to revoke session')
+      }
+
+      if (session.current) {
+        signedOut()
+        return
+      }
+
+      setSessions(prev => prev.filter(s => s.id !== session.id))
+    } catch (error) {
+      console.error('Error revoking session:', error)
+      alert('Failed to sign out that device. Please try again.')
+    }
+  }
+
+  const revokeAllSessions = async () => {
+    if (!confirm('Sign out on every device, including this one?')) {
+      return
+    }
+
+    try {
+      const response = await fetch('/api/auth/sessions', { method: 'DELETE' })
+
+      if (!response.ok) {
+        throw new Error('Failed to revoke sessions')
+      }
+
+      signedOut()
+    } catch (error) {
+      console.error('Error revoking sessions:', error)
+      alert('Failed to sign out everywhere. Please try again.')
+    }
+  }
+
+  const toggleTokenScope = (scope: string) => {
+    setTokenScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope])
+  }
+
+  const createApiToken = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (tokenScopes.length === 0) {
+      alert('Choose at least one scope.')
+      return
+    }
+
+    try {
+      const response = await fetch('/api/auth/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: tokenName,
+          scopes: tokenScopes,
+          expiresInDays: tokenExpiry === 'never' ? null : Number(tokenExpiry)
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to create API token')
+      }
+
+      const { token, apiToken } = await response.json()
+
+      setNewToken(token)
+      setApiTokens(prev => [apiToken, ...prev])
+      setTokenName('')
+      setTokenScopes([])
+    } catch (error) {
+      console.error('Error creating API token:', error)
+      alert('Failed to create API token. Please try again.')
+    }
+  }
+
+  const revokeApiToken = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/auth/tokens/${token.id}`, {
+        method: 'DELETE'
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to revoke API token')
+      }
+
+      setApiTokens(prev => prev.filter(t => t.id !== token.id))
+    } catch (error) {
+      console.error('Error revoking API token:', error)
+      alert('Failed to revoke API token. Please try again.')
+    }
+  }
+
+  const deleteAccount = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setDeleteError('')
+
+    if (!confirm('Delete your account and all of your data? You will be signed out everywhere.')) {
+      return
+    }
+
+    try {
+      const response = await fetch('/api/account', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(deleteToken ? { token: deleteToken } : { password: deletePassword })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setDeleteError(data.error || 'Failed to delete account')
+        return
+      }
+
+      alert(`Your account will be deleted on ${new Date(data.deleteAfter).toLocaleDateString()}. Sign in before then to keep it.`)
+      signedOut()
+    } catch (error) {
+      console.error('Error deleting account:', error)
+      setDeleteError('Failed to delete account. Please try again.')
+    }
+  }
+
+  const requestDeleteEmail = async () => {
+    setDeleteError('')
+
+    try {
+      const response = await fetch('/api/account/delete-request', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setDeleteError(data.error || 'Failed to send confirmation email')
+        return
+      }
+
+      setDeleteEmailSent(true)
+    } catch (error) {
+      console.error('Error requesting account deletion email:', error)
+      setDeleteError('Failed to send confirmation email. Please try again.')
+    }
+  }
+
+  const restoreAccount = async () => {
+    try {
+      const response = await fetch('/api/account/restore', { method: 'POST' })
+
+      if (!response.ok) {
+        throw new Error('Failed to restore account')
+      }
+
+      setAccount(prev => prev && { ...prev, deleteAfter: null })
+    } catch (error) {
+      console.error('Error restoring account:', error)
+      alert('Failed to cancel deletion. Please try again.')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-indigo-600 border-r-transparent"></div>
+          <p className="mt-4 text-gray-600">Loading account...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <header className="border-b border-gray-200 bg-white shadow-sm">
+        <div className="container mx-auto flex items-center justify-between px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="text-2xl font-bold text-indigo-600 hover:text-indigo-700"
+            >
+              TutorFlow
+            </Link>
+            <Link
+              href="/conversations"
+              className="text-gray-600 hover:text-gray-900"
+            >
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900">Account</h1>
+          <div className="w-6"></div>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-3xl px-6 py-8">
+        {account?.deleteAfter && (
+          <div className="mb-8 flex items-center justify-between rounded-lg border border-red-200 bg-red-50 p-4">
+            <p className="text-sm text-red-700">
+              Your account is scheduled for deletion on {new Date(account.deleteAfter).toLocaleDateString()}.
+            </p>
+            <button
+              onClick={restoreAccount}
+              className="rounded-lg bg-white px-4 py-2 text-sm font-medium text-red-700 shadow-sm hover:bg-red-100"
+            >
+              Keep my account
+            </button>
+          </div>
+        )}
+
+        {account && (
+          <div className="mb-8 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+            <p className="text-lg font-semibold text-gray-900">{account.name || account.email}</p>
+            <p className="text-sm text-gray-600">
+              {account.email}
+              {account.emailVerifiedAt ? (
+                <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700">
+                  Verified
+                </span>
+              ) : (
+                <span className="ml-2 rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-700">
+                  Not verified
+                </span>
+              )}
+            </p>
+            {!account.emailVerifiedAt && (
+              verificationSent ? (
+                <p className="mt-3 text-sm text-gray-600">Check your inbox for a verification link.</p>
+              ) : (
+                <button
+                  onClick={resendVerification}
+                  className="mt-3 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+                >
+                  Send verification email
+                </button>
+              )
+            )}
+          </div>
+        )}
+
+        <section>
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Signed-in devices</h2>
+            <button
+              onClick={revokeAllSessions}
+              className="rounded-lg border border-red-200 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50"
+            >
+              Sign out everywhere
+            </button>
+          </div>
+
+          <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white shadow-sm">
+            {sessions.map(session => (
+              <li key={session.id} className="flex items-center justify-between px-6 py-4">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {session.device}
+                    {session.current && (
+                      <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {session.ipAddress && `${session.ipAddress} · `}
+                    Last active {new Date(session.lastSeenAt).toLocaleString()}
+                    {' · '}Signed in {new Date(session.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => revokeSession(session)}
+                  className="text-sm font-medium text-gray-600 hover:text-red-600"
+                >
+                  Sign out
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="mt-10">
+          <h2 className="mb-1 text-lg font-semibold text-gray-900">API tokens</h2>
+          <p className="mb-4 text-sm text-gray-600">
+            For scripts: send a token as <code className="rounded bg-gray-100 px-1">Authorization: Bearer &lt;token&gt;</code>.
+            It can only use the API areas its scopes allow.
+          </p>
+
+          {newToken && (
+            <div className="mb-4 rounded-lg border border-green-200 bg-green-50 p-4">
+              <p className="text-sm font-medium text-green-800">Copy your new token now. You won&apos;t be able to see it again.</p>
+              <div className="mt-2 flex gap-2">
+                <code className="flex-1 break-all rounded bg-white px-3 py-2 text-sm text-gray-900">{newToken}</code>
+                <button
+                  onClick={() => navigator.clipboard.writeText(newToken)}
+                  className="rounded-lg border border-green-300 bg-white px-3 py-2 text-sm font-medium text-green-800 hover:bg-green-100"
+                >
+                  Copy
+                </button>
+              </div>
+              <button
+                onClick={() => setNewToken(null)}
+                className="mt-2 text-sm text-green-800 hover:underline"
+              >
+                Done
+              </button>
+            </div>
+          )}
+
+          {apiTokens.length > 0 && (
+            <ul className="mb-4 divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white shadow-sm">
+              {apiTokens.map(token => (
+                <li key={token.id} className="flex items-center justify-between px-6 py-4">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {token.name}
+                      <span className="ml-2 font-mono text-xs text-gray-500">{token.prefix}…</span>
+                    </p>
+                    <p className="mt-1 flex flex-wrap gap-1">
+                      {token.scopes.map(scope => (
+                        <span key={scope} className="rounded-full bg-indigo-50 px-2 py-0.5 text-xs text-indigo-700">
+                          {scope}
+                        </span>
+                      ))}
+                    </p>
+                    <p className="mt-1 text-sm text-gray-600">
+                      {token.lastUsedAt ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}` : 'Never used'}
+                      {' · '}{token.expiresAt ? `Expires ${new Date(token.expiresAt).toLocaleDateString()}` : 'Never expires'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => revokeApiToken(token)}
+                    className="text-sm font-medium text-gray-600 hover:text-red-600"
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={createApiToken} className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                required
+                value={tokenName}
+                onChange={(e) => setTokenName(e.target.value)}
+                placeholder="Token name, e.g. Weekly report script"
+                className="flex-1 rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+              <select
+                value={tokenExpiry}
+                onChange={(e) => setTokenExpiry(e.target.value)}
+                className="rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              >
+                <option value="30">30 days</option>
+                <option value="90">90 days</option>
+                <option value="365">1 year</option>
+                <option value="never">No expiry</option>
+              </select>
+            </div>
+            <div className="mt-4 grid gap-2 sm:grid-cols-2">
+              {apiScopes.map(({ scope, description }) => (
+                <label key={scope} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={tokenScopes.includes(scope)}
+                    onChange={() => toggleTokenScope(scope)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-mono text-gray-900">{scope}</span>
+                    <span className="block text-gray-600">{description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <button
+              type="submit"
+              className="mt-4 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+            >
+              Create token
+            </button>
+          </form>
+        </section>
+
+        <section className="mt-10">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">Your data</h2>
+
+          <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+            <p className="text-sm text-gray-600">
+              Download your conversations, quizzes and attempts, flashcards, study sessions, goals, classes, what the tutor remembers about you, and your sign-ins, devices and API tokens as a JSON file.
+            </p>
+            <a
+              href="/api/account/export"
+              className="mt-3 inline-block rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Download my data
+            </a>
+          </div>
+
+          <div className="mt-4 rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+            <p className="text-sm text-gray-600">
+              See and correct what the tutor has learned about you across conversations, or make it forget.
+            </p>
+            <Link
+              href="/account/memory"
+              className="mt-3 inline-block rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Manage tutor memory
+            </Link>
+          </div>
+
+          {!account?.deleteAfter && (
+            <form onSubmit={deleteAccount} className="mt-4 rounded-lg border border-red-200 bg-white p-6 shadow-sm">
+              <p className="font-medium text-gray-900">Delete account</p>
+              <p className="mt-1 text-sm text-gray-600">
+                Your account and everything in it are deleted after a grace period. Signing back in before then lets you cancel.
+              </p>
+              {deleteToken ? (
+                <button
+                  type="submit"
+                  className="mt-3 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
+                >
+                  Confirm deleting my account
+                </button>
+              ) : (
+                <>
+                  <div className="mt-3 flex gap-2">
+                    <input
+                      type="password"
+                      required
+                      value={deletePassword}
+                      onChange={(e) => setDeletePassword(e.target.value)}
+                      placeholder="Confirm your password"
+                      className="flex-1 rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-200"
+                    />
+                    <button
+                      type="submit"
+                      className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
+                    >
+                      Delete account
+                    </button>
+                  </div>
+                  {deleteEmailSent ? (
+                    <p className="mt-2 text-sm text-gray-600">Check your email for a link to confirm.</p>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={requestDeleteEmail}
+                      className="mt-2 text-sm text-gray-600 underline hover:text-gray-900"
+                    >
+                      Signed up with single sign-on? Confirm by email instead
+                    </button>
+                  )}
+                </>
+              )}
+              {deleteError && <p className="mt-2 text-sm text-red-600">{deleteError}</p>}
+            </form>
+          )}
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { notFound, requireUser } from '@/lib/authz'
+import { sendAccountDeletionEmail } from '@/lib/verification'
+import { limitByIp } from '@/lib/ratelimit'
+
+// POST /api/account/delete-request - Email the signed-in user a link that
+// confirms deleting their account, for accounts signed into with single
+// sign-on that have no password to confirm with
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const limited = await limitByIp(request.headers, 'accountEmails')
+    if (limited) return limited
+
+    const user = await prisma.user.findUnique({
+      where: { id: auth.data.userId }
+    })
+
+    if (!user) return notFound('User')
+
+    await sendAccountDeletionEmail(user)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error sending account deletion email:', error)
+    return NextResponse.json(
+      { error: 'Failed to send confirmation email' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authz'
+import { exportAccountData } from '@/lib/accounts'
+
+// GET /api/account/export - Download all of the user's data as JSON
+export async function GET() {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const data = await exportAccountData(auth.data.userId)
+    const filename = `tutorflow-export-${data.exportedAt.toISOString().slice(0, 10)}.json`
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting account:', error)
+    return NextResponse.json(
+      { error: 'Failed to export account' },
+      { status: 500 }
+    )
+  }
+}
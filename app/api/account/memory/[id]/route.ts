@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { requireOwner, requireUser } from '@/lib/authz'
+import { learnerFactSchema } from '@/lib/learnerFacts'
+import { updateLearnerFact } from '@/lib/learnerProfile'
+
+// PATCH /api/account/memory/[id] - Correct a fact
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { id } = await params
+
+    const existing = await prisma.learnerFact.findUnique({ where: { id } })
+    const owned = requireOwner(auth.data, existing, f => f.userId, 'Fact')
+    if (!owned.success) return owned.response
+
+    const parsed = learnerFactSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      )
+    }
+
+    const fact = await updateLearnerFact(auth.data.userId, id, parsed.data)
+
+    return NextResponse.json({ fact })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'The tutor already knows that' },
+        { status: 409 }
+      )
+    }
+
+    console.error('Error updating learner fact:', error)
+    return NextResponse.json(
+      { error: 'Failed to update learner fact' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/account/memory/[id] - Make the tutor forget a fact
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { id } = await params
+
+    const existing = await prisma.learnerFact.findUnique({
+      where: { id },
+      select: { userId: true }
+    })
+    const owned = requireOwner(auth.data, existing, f => f.userId, 'Fact')
+    if (!owned.success) return owned.response
+
+    await prisma.learnerFact.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting learner fact:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete learner fact' },
+      { status: 500 }
+    )
+  }
+}
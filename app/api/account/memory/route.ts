@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireUser } from '@/lib/authz'
+import { learnerFactSchema } from '@/lib/learnerFacts'
+import { listLearnerFacts, saveLearnerFact } from '@/lib/learnerProfile'
+
+// GET /api/account/memory - What the tutor remembers about the user
+export async function GET() {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const facts = await listLearnerFacts(auth.data.userId)
+
+    return NextResponse.json({ facts })
+  } catch (error) {
+    console.error('Error fetching learner facts:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch learner facts' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/account/memory - Tell the tutor something about yourself
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const parsed = learnerFactSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      )
+    }
+
+    const fact = await saveLearnerFact(auth.data.userId, parsed.data, 'user')
+
+    return NextResponse.json({ fact }, { status: 201 })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error saving learner fact:', error)
+    return NextResponse.json(
+      { error: 'Failed to save learner fact' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/account/memory - Make the tutor forget everything about the user
+export async function DELETE() {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { count } = await prisma.learnerFact.deleteMany({
+      where: { userId: auth.data.userId }
+    })
+
+    return NextResponse.json({ deleted: count })
+  } catch (error) {
+    console.error('Error deleting learner facts:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete learner facts' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authz'
+import { cancelAccountDeletion } from '@/lib/accounts'
+
+// POST /api/account/restore - Cancel a scheduled account deletion
+export async function POST() {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    await cancelAccountDeletion(auth.data.userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error restoring account:', error)
+    return NextResponse.json(
+      { error: 'Failed to restore account' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { removeAuthCookies, verifyPassword } from '@/lib/auth'
+import { notFound, requireUser } from '@/lib/authz'
+import { scheduleAccountDeletion } from '@/lib/accounts'
+import { verifyAccountDeletion } from '@/lib/verification'
+import { limitByIp } from '@/lib/ratelimit'
+
+// GET /api/account - The signed-in user's profile
+export async function GET() {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const user = await prisma.user.findUnique({
+      where: { id: auth.data.userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        emailVerifiedAt: true,
+        deleteAfter: true,
+        createdAt: true
+      }
+    })
+
+    if (!user) return notFound('User')
+
+    return NextResponse.json({ user })
+  } catch (error) {
+    console.error('Error fetching account:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch account' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/account - Schedule the account for deletion after the grace
+// period. Requires the current password, or the token from the link emailed by
+// /api/account/delete-request, and signs out every device.
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    // Same brute-force protection as sign-in
+    const limited = await limitByIp(request.headers, 'login')
+    if (limited) return limited
+
+    const { password, token } = await request.json()
+
+    if (!password && !token) {
+      return NextResponse.json(
+        { error: 'Password or confirmation token is required' },
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: auth.data.userId },
+      select: { id: true, password: true }
+    })
+
+    if (!user) return notFound('User')
+
+    if (token) {
+      if (typeof token !== 'string' || !await verifyAccountDeletion(user.id, token)) {
+        return NextResponse.json(
+          { error: 'This confirmation link is invalid, has expired or has already been used' },
+          { status: 403 }
+        )
+      }
+    } else if (typeof password !== 'string' || !await verifyPassword(password, user.password)) {
+      return NextResponse.json(
+        { error: 'Incorrect password' },
+        { status: 403 }
+      )
+    }
+
+    const deleteAfter = await scheduleAccountDeletion(user.id)
+    await removeAuthCookies()
+
+    return NextResponse.json({ deleteAfter })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error deleting account:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete account' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { notFound, requireUser } from '@/lib/authz'
+import { copyAssignedSet } from '@/lib/classrooms'
+
+// POST /api/assignments/[id]/start - Open an assigned flashcard set, copying it
+// to the student the first time. Quizzes are taken directly at /quizzes/[id].
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const userId = auth.data.userId
+
+    const { id } = await params
+
+    // Assignments outside the user's classes are reported as missing
+    const assignment = await prisma.assignment.findFirst({
+      where: { id, classroom: { members: { some: { userId } } } },
+      select: { id: true, flashcardSetId: true }
+    })
+
+    if (!assignment) return notFound('Assignment')
+
+    const { flashcardSetId } = assignment
+    if (!flashcardSetId) {
+      return NextResponse.json(
+        { error: 'Only flashcard assignments need to be started' },
+        { status: 400 }
+      )
+    }
+
+    const flashcardSet = await copyAssignedSet({ id: assignment.id, flashcardSetId }, userId)
+
+    return NextResponse.json({ flashcardSetId: flashcardSet.id })
+  } catch (error) {
+    console.error('Error starting assignment:', error)
+    return NextResponse.json(
+      { error: 'Failed to start assignment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireUser } from '@/lib/authz'
+import { assignmentInclude, describeAssignment, loadProgress, progressKey } from '@/lib/classrooms'
+
+// GET /api/assignments - Work assigned to the user in the classes they've joined
+export async function GET() {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const userId = auth.data.userId
+
+    const assignments = await prisma.assignment.findMany({
+      where: { classroom: { members: { some: { userId } } } },
+      include: {
+        ...assignmentInclude,
+        classroom: { select: { id: true, name: true } }
+      },
+      orderBy: { dueAt: 'asc' }
+    })
+
+    const progress = await loadProgress(assignments, [userId])
+
+    return NextResponse.json({
+      assignments: assignments.map(assignment => ({
+        ...describeAssignment(assignment),
+        classroom: assignment.classroom,
+        progress: progress.get(progressKey(assignment.id, userId))
+      }))
+    })
+  } catch (error) {
+    console.error('Error fetching assignments:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch assignments' },
+      { status: 500 }
+    )
+  }
+}
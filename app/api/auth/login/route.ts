@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { verifyPassword, createToken, setAuthCookie } from '@/lib/auth'
+import { verifyPassword, setAuthCookies } from '@/lib/auth'
+import { startSession } from '@/lib/sessions'
+import { limitByIp } from '@/lib/ratelimit'
+import { purgeDeletedAccounts } from '@/lib/accounts'
 
 export async function POST(request: NextRequest) {
   try {
+    // Brute-force protection
+    const limited = await limitByIp(request.headers, 'login')
+    if (limited) return limited
+
     const body = await request.json()
     const { email, password } = body
 
@@ -15,6 +22,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // An account past its deletion date is gone, even if the cron job hasn't run yet
+    await purgeDeletedAccounts()
+
     // Find user
     const user = await prisma.user.findUnique({
       where: { email }
@@ -36,15 +46,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create token and set cookie
-    const token = await createToken(user.id, user.email, user.name || undefined)
-    await setAuthCookie(token)
+    // Start a session for this device and set the token cookies
+    const tokens = await startSession(user, request.headers)
+    await setAuthCookies(tokens)
 
     return NextResponse.json({
       user: {
         id: user.id,
         email: user.email,
-        name: user.name
+        name: user.name,
+        role: user.role,
+        deleteAfter: user.deleteAfter // Set when the account is scheduled for deletion
       }
     })
   } catch (error) {
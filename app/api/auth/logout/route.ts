@@ -1,9 +1,16 @@
 import { NextResponse } from 'next/server'
-import { removeAuthCookie } from '@/lib/auth'
+import { getCurrentUser, removeAuthCookies } from '@/lib/auth'
+import { revokeSession } from '@/lib/sessions'
 
 export async function POST() {
   try {
-    await removeAuthCookie()
+    // End this device's session so its refresh token stops working too
+    const user = await getCurrentUser()
+    if (user?.sessionId) {
+      await revokeSession(user.userId, user.sessionId)
+    }
+
+    await removeAuthCookies()
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Logout error:', error)
@@ -1,24 +1,18 @@
 import { NextResponse } from 'next/server'
-import { getCurrentUser } from '@/lib/auth'
-import { prisma } from '@/lib/db'
+import { requireUser } from '@/lib/authz'
 
 export async function GET() {
   try {
-    const auth = await getCurrentUser()
-
-    if (!auth) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      )
-    }
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
 
     // Return user info from JWT token (no database query needed!)
     return NextResponse.json({
       user: {
-        id: auth.userId,
-        email: auth.email,
-        name: auth.name
+        id: auth.data.userId,
+        email: auth.data.email,
+        name: auth.data.name,
+        role: auth.data.role
       }
     })
   } catch (error) {
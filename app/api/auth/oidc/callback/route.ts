@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { setResponseAuthCookies } from '@/lib/auth'
+import { notFound } from '@/lib/authz'
+import {
+  completeAuthorization,
+  findOrCreateOIDCUser,
+  getOIDCConfig,
+  OIDC_FLOW_COOKIE,
+  type OIDCFlow
+} from '@/lib/oidc'
+import { startSession } from '@/lib/sessions'
+import { purgeDeletedAccounts } from '@/lib/accounts'
+
+function parseFlow(value: string | undefined): OIDCFlow | null {
+  try {
+    return value ? JSON.parse(value) : null
+  } catch {
+    return null
+  }
+}
+
+// GET /api/auth/oidc/callback - The identity provider redirects back here with a code
+export async function GET(request: NextRequest) {
+  // Back to the login page with a reason it can explain to the user
+  const loginError = (reason: string) => {
+    const response = NextResponse.redirect(new URL(`/login?error=${reason}`, request.url))
+    response.cookies.delete(OIDC_FLOW_COOKIE)
+    return response
+  }
+
+  try {
+    const config = getOIDCConfig()
+    if (!config) return notFound('OIDC provider')
+
+    const { searchParams } = request.nextUrl
+    if (searchParams.get('error')) return loginError('oidc_denied')
+
+    const flow = parseFlow(request.cookies.get(OIDC_FLOW_COOKIE)?.value)
+    const code = searchParams.get('code')
+    if (!flow || !code || searchParams.get('state') !== flow.state) {
+      return loginError('oidc_failed')
+    }
+
+    const profile = await completeAuthorization(config, code, flow)
+    if (!profile.emailVerified) return loginError('oidc_unverified')
+
+    await purgeDeletedAccounts()
+    const user = await findOrCreateOIDCUser(config, profile)
+    const tokens = await startSession(user, request.headers)
+
+    const response = NextResponse.redirect(new URL(flow.next, request.url))
+    response.cookies.delete(OIDC_FLOW_COOKIE)
+    setResponseAuthCookies(response, tokens)
+    return response
+  } catch (error) {
+    console.error('OIDC callback error:', error)
+    return loginError('oidc_failed')
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authCookieOptions } from '@/lib/auth'
+import { notFound } from '@/lib/authz'
+import {
+  createAuthorizationRequest,
+  getOIDCConfig,
+  OIDC_FLOW_COOKIE,
+  OIDC_FLOW_TTL_SECONDS
+} from '@/lib/oidc'
+
+// GET /api/auth/oidc/login?next=/path - Send the browser to the identity provider
+export async function GET(request: NextRequest) {
+  try {
+    const config = getOIDCConfig()
+    if (!config) return notFound('OIDC provider')
+
+    // Only local paths, never //host
+    const next = request.nextUrl.searchParams.get('next')
+    const { url, flow } = await createAuthorizationRequest(
+      config,
+      next && /^\/(?![\/\\])/.test(next) ? next : '/conversations'
+    )
+
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OIDC_FLOW_COOKIE, JSON.stringify(flow), authCookieOptions(OIDC_FLOW_TTL_SECONDS))
+    return response
+  } catch (error) {
+    console.error('OIDC login error:', error)
+    return NextResponse.redirect(new URL('/login?error=oidc_failed', request.url))
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import { getOIDCConfig } from '@/lib/oidc'
+
+// GET /api/auth/oidc - Whether single sign-on is configured, for the login page
+export async function GET() {
+  const config = getOIDCConfig()
+
+  return NextResponse.json({
+    enabled: !!config,
+    name: config?.name ?? null
+  })
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MIN_PASSWORD_LENGTH } from '@/lib/auth'
+import { resetPassword } from '@/lib/verification'
+
+// POST /api/auth/password-reset/confirm - Set a new password using the emailed token
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json()
+
+    if (typeof token !== 'string' || !token || typeof password !== 'string' || !password) {
+      return NextResponse.json(
+        { error: 'Token and password are required' },
+        { status: 400 }
+      )
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const reset = await resetPassword(token, password)
+    if (!reset) {
+      return NextResponse.json(
+        { error: 'This reset link is invalid, has expired or has already been used' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error resetting password:', error)
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    )
+  }
+}
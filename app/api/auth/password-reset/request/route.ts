@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { sendPasswordResetEmail } from '@/lib/verification'
+import { limitByIp } from '@/lib/ratelimit'
+
+// POST /api/auth/password-reset/request - Email a reset link if the account exists
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await limitByIp(request.headers, 'accountEmails')
+    if (limited) return limited
+
+    const { email } = await request.json()
+
+    if (typeof email !== 'string' || !email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email }
+    })
+
+    if (user) {
+      try {
+        await sendPasswordResetEmail(user)
+      } catch (error) {
+        console.error('Error sending password reset email:', error)
+      }
+    }
+
+    // Same answer either way, so this can't be used to find out who has an account
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error requesting password reset:', error)
+    return NextResponse.json(
+      { error: 'Failed to request password reset' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { hashPassword, createToken, setAuthCookie } from '@/lib/auth'
+import { hashPassword, MIN_PASSWORD_LENGTH, setAuthCookies } from '@/lib/auth'
+import { startSession } from '@/lib/sessions'
+import { sendVerificationEmail } from '@/lib/verification'
+import { limitByIp } from '@/lib/ratelimit'
 
 export async function POST(request: NextRequest) {
   try {
+    const limited = await limitByIp(request.headers, 'register')
+    if (limited) return limited
+
     const body = await request.json()
-    const { email, password, name } = body
+    const { email, password, name, role = 'student' } = body
 
     // Validation
     if (!email || !password) {
@@ -15,9 +21,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (password.length < 6) {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    // Anyone can sign up to teach; admins are only made by other admins
+    if (role !== 'student' && role !== 'teacher') {
       return NextResponse.json(
-        { error: 'Password must be at least 6 characters' },
+        { error: 'Role must be student or teacher' },
         { status: 400 }
       )
     }
@@ -40,19 +54,28 @@ export async function POST(request: NextRequest) {
       data: {
         email,
         password: hashedPassword,
-        name: name || email.split('@')[0]
+        name: name || email.split('@')[0],
+        role
       }
     })
 
-    // Create token and set cookie
-    const token = await createToken(user.id, user.email, user.name || undefined)
-    await setAuthCookie(token)
+    // A mail outage shouldn't block sign-up; they can resend from the account page
+    try {
+      await sendVerificationEmail(user)
+    } catch (error) {
+      console.error('Error sending verification email:', error)
+    }
+
+    // Start a session for this device and set the token cookies
+    const tokens = await startSession(user, request.headers)
+    await setAuthCookies(tokens)
 
     return NextResponse.json({
       user: {
         id: user.id,
         email: user.email,
-        name: user.name
+        name: user.name,
+        role: user.role
       }
     })
   } catch (error) {
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { removeAuthCookies } from '@/lib/auth'
+import { notFound, requireUser } from '@/lib/authz'
+import { revokeSession } from '@/lib/sessions'
+
+// DELETE /api/auth/sessions/[id] - Sign out one device
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { id } = await params
+
+    const revoked = await revokeSession(auth.data.userId, id)
+    if (!revoked) return notFound('Session')
+
+    if (id === auth.data.sessionId) {
+      await removeAuthCookies()
+    }
+
+    return NextResponse.json({ success: true, current: id === auth.data.sessionId })
+  } catch (error) {
+    console.error('Error revoking session:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke session' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { removeAuthCookies } from '@/lib/auth'
+import { requireUser } from '@/lib/authz'
+import { describeDevice, listSessions, revokeAllSessions } from '@/lib/sessions'
+
+// GET /api/auth/sessions - Devices the user is signed in on
+export async function GET() {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const sessions = await listSessions(auth.data.userId)
+
+    return NextResponse.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        device: describeDevice(session.userAgent),
+        current: session.id === auth.data.sessionId
+      }))
+    })
+  } catch (error) {
+    console.error('Error fetching sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch sessions' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/auth/sessions - Sign out everywhere, including this device
+export async function DELETE() {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const revoked = await revokeAllSessions(auth.data.userId)
+    await removeAuthCookies()
+
+    return NextResponse.json({ success: true, revoked })
+  } catch (error) {
+    console.error('Error revoking sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke sessions' },
+      { status: 500 }
+    )
+  }
+}
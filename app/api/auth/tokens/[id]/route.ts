@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { notFound, requireUser } from '@/lib/authz'
+import { revokeApiToken } from '@/lib/apiTokens'
+
+// DELETE /api/auth/tokens/[id] - Revoke a personal access token
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { id } = await params
+
+    const revoked = await revokeApiToken(auth.data.userId, id)
+    if (!revoked) return notFound('API token')
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking API token:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke API token' },
+      { status: 500 }
+    )
+  }
+}
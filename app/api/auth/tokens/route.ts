@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireUser } from '@/lib/authz'
+import { API_SCOPES, createApiToken, listApiTokens, type ApiScope } from '@/lib/apiTokens'
+
+const scopeNames = Object.keys(API_SCOPES) as [ApiScope, ...ApiScope[]]
+
+const tokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z.array(z.enum(scopeNames)).min(1, 'Choose at least one scope'),
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(null) // null never expires
+})
+
+// GET /api/auth/tokens - The user's personal access tokens and the scopes available
+export async function GET() {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const tokens = await listApiTokens(auth.data.userId)
+
+    return NextResponse.json({
+      tokens,
+      scopes: Object.entries(API_SCOPES).map(([scope, description]) => ({ scope, description }))
+    })
+  } catch (error) {
+    console.error('Error fetching API tokens:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch API tokens' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/auth/tokens - Create a token. The response is the only time the
+// token itself is shown.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const parsed = tokenSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      )
+    }
+
+    const { name, scopes, expiresInDays } = parsed.data
+
+    const { token, apiToken } = await createApiToken(auth.data.userId, {
+      name,
+      scopes: [...new Set(scopes)],
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null
+    })
+
+    return NextResponse.json({ token, apiToken })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating API token:', error)
+    return NextResponse.json(
+      { error: 'Failed to create API token' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { confirmEmailVerification } from '@/lib/verification'
+
+// POST /api/auth/verify-email/confirm - Mark the email verified using the emailed token.
+// Works signed out, since the link may be opened in another browser.
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json()
+
+    if (typeof token !== 'string' || !token) {
+      return NextResponse.json(
+        { error: 'Token is required' },
+        { status: 400 }
+      )
+    }
+
+    const verified = await confirmEmailVerification(token)
+    if (!verified) {
+      return NextResponse.json(
+        { error: 'This verification link is invalid or has expired' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error verifying email:', error)
+    return NextResponse.json(
+      { error: 'Failed to verify email' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { notFound, requireUser } from '@/lib/authz'
+import { sendVerificationEmail } from '@/lib/verification'
+import { limitByIp } from '@/lib/ratelimit'
+
+// POST /api/auth/verify-email/request - Email the signed-in user a verification link
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const limited = await limitByIp(request.headers, 'accountEmails')
+    if (limited) return limited
+
+    const user = await prisma.user.findUnique({
+      where: { id: auth.data.userId }
+    })
+
+    if (!user) return notFound('User')
+
+    if (user.emailVerifiedAt) {
+      return NextResponse.json({ success: true, alreadyVerified: true })
+    }
+
+    await sendVerificationEmail(user)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error sending verification email:', error)
+    return NextResponse.json(
+      { error: 'Failed to send verification email' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,54 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
-import { functions, handleFunctionCall } from '@/lib/functions'
+import type { Prisma } from '@prisma/client'
+import { handleFunctionCall } from '@/lib/functions'
+import { functions, getTool, toolPromptSection } from '@/lib/tools'
 import { getCurrentUser } from '@/lib/auth'
+import { requireConversation } from '@/lib/authz'
+import { getLLM, type LLMChatOptions, type LLMChatResult, type LLMMessage, type LLMToolCall } from '@/lib/llm'
+import { encodeSSE, SSE_HEADERS } from '@/lib/sse'
+import { consume, formatRetryAfter, limitByUser } from '@/lib/ratelimit'
+import { buildContext, fitToBudget, TEXT_CONTEXT_TOKENS, type ConversationContext } from '@/lib/context'
+import { learnerProfilePrompt } from '@/lib/learnerProfile'
+import { saveMessage } from '@/lib/conversations'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
-export async function POST(request: NextRequest) {
-  try {
-    const { messages, conversationId } = await request.json()
-
-    // Get user from session
-    const user = await getCurrentUser()
-    const userId = user?.userId
-
-    // Create a chat completion with function calling
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: `You are TutorFlow, an AI learning companion. Help students study effectively by:
-- Creating and managing quizzes
-- Tracking study sessions and progress
-- Setting and monitoring study goals
-- Recommending topics for review
-- Searching for learning resources
-- Generating flashcards for memorization
+const SYSTEM_PROMPT = `You are TutorFlow, an AI learning companion. Help students study effectively by:
+${toolPromptSection()}
 
 Be encouraging, patient, and adaptive to each student's learning style. Use the available functions to help students track their progress and stay motivated.
 
-FLASHCARD SUGGESTIONS: Offer to generate flashcards when:
-- You've just explained a concept with multiple facts, definitions, or terms
-- User completed a quiz with score < 75%
-- User mentions needing to memorize something or studying for an exam
-- ONLY suggest flashcards ONCE per topic - don't repeat if user declines
-
-QUIZ CREATION: When a user wants to test their knowledge:
-- ALWAYS use the create_quiz function to generate a quiz in the database
-- NEVER ask quiz questions directly in the chat - this defeats the purpose of the quiz feature
-- Tell them "I've created a quiz for you! Visit the Quizzes tab to take it."
-- Suggest creating a quiz when:
-  * You've finished teaching a complete topic or lesson
-  * User explicitly asks for a quiz or practice questions
-  * After reviewing material or providing explanations on a subject
-  * User mentions preparing for a test or exam
-- ONLY suggest quizzes ONCE per topic - don't repeat if user declines
-- Don't offer both flashcards AND quiz in the same response - choose the most appropriate one
-
 IMPORTANT: When writing mathematical expressions, use ONLY these markdown math delimiters:
 - For inline math, use single dollar signs: $x^2$ or $f(x) = 3x^2$
 - For display (block) math, use double dollar signs on their own lines:
@@ -60,55 +27,8 @@ Examples:
 - CORRECT: The derivative of $f(x) = x^3$ is $f'(x) = 3x^2$
 - CORRECT: Apply the power rule: $$f'(x) = 3 \\cdot x^{3-1} = 3x^2$$
 - WRONG: Apply the power rule: \\[ f'(x) = 3x^2 \\]`
-        },
-        ...messages
-      ],
-      tools: functions.map(fn => ({
-        type: 'function' as const,
-        function: {
-          name: fn.name,
-          description: fn.description,
-          parameters: fn.parameters
-        }
-      })),
-      tool_choice: 'auto',
-    })
-
-    const message = response.choices[0].message
-
-    // Handle function calls if present
-    if (message.tool_calls && message.tool_calls.length > 0) {
-      const functionResults = []
-
-      for (const toolCall of message.tool_calls) {
-        if (toolCall.type !== 'function') continue
-        const functionName = toolCall.function.name
-        const functionArgs = JSON.parse(toolCall.function.arguments)
-
-        // Inject userId and conversationId into arguments
-        const enrichedArgs = {
-          ...functionArgs,
-          userId,
-          conversationId
-        }
 
-        // Execute the function directly
-        const result = await handleFunctionCall(functionName, enrichedArgs)
-
-        functionResults.push({
-          tool_call_id: toolCall.id,
-          role: 'tool' as const,
-          content: JSON.stringify(result)
-        })
-      }
-
-      // Get the final response after function calls
-      const finalResponse = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are TutorFlow, an AI learning companion. Help students study effectively.
+const FOLLOW_UP_PROMPT = `You are TutorFlow, an AI learning companion. Help students study effectively.
 
 IMPORTANT: When writing mathematical expressions, use ONLY these markdown math delimiters:
 - For inline math, use single dollar signs: $x^2$ or $f(x) = 3x^2$
@@ -121,28 +41,85 @@ Examples:
 - CORRECT: The derivative of $f(x) = x^3$ is $f'(x) = 3x^2$
 - CORRECT: Apply the power rule: $$f'(x) = 3 \\cdot x^{3-1} = 3x^2$$
 - WRONG: Apply the power rule: \\[ f'(x) = 3x^2 \\]`
-          },
-          ...messages,
-          message,
-          ...functionResults
-        ],
+
+// Maximum rounds of tool calls per user turn before forcing a plain answer
+const MAX_TOOL_STEPS = Number(process.env.CHAT_MAX_TOOL_STEPS) || 5
+
+type SendEvent = (event: string, data: unknown) => void
+
+interface FunctionCallRecord {
+  id: string
+  step: number
+  name: string
+  arguments: Record<string, unknown>
+  result: unknown
+}
+
+// POST /api/chat - Generate a reply. With a conversationId the reply is based
+// on the stored conversation (its summary and recent turns), so save the
+// user's message first; the reply is saved to it too, with a new title in
+// `conversation` when the conversation was just titled. Otherwise pass the
+// history as `messages`.
+// Pass `stream: true` to receive Server-Sent Events: delta, tool_call_started,
+// tool_call_finished, then a final message (or error) event.
+export async function POST(request: NextRequest) {
+  try {
+    const { messages = [], stream = false, ...body } = await request.json()
+
+    // Get user from session
+    const user = await getCurrentUser()
+    const userId = user?.userId
+
+    // Tool calls may only write to the caller's own conversation
+    if (user && body.conversationId) {
+      const owned = await requireConversation(user, body.conversationId)
+      if (!owned.success) return owned.response
+    }
+    const conversationId: string | undefined = user ? body.conversationId : undefined
+
+    // The turn's first completion; generateReply charges each one after it
+    if (userId) {
+      const limited = await limitByUser(userId, 'completions', 'AI replies')
+      if (limited) return limited
+    }
+
+    const context: ConversationContext = conversationId
+      ? await buildContext(conversationId, TEXT_CONTEXT_TOKENS)
+      : { summary: null, messages: fitToBudget(messages, TEXT_CONTEXT_TOKENS) }
+    const profile = userId ? await learnerProfilePrompt(userId) : null
+
+    const respond = async (send?: SendEvent) => {
+      const reply = await generateReply(context, profile, userId, conversationId, send)
+      if (!userId || !conversationId) return reply
+
+      const saved = await saveMessage({ id: conversationId, userId }, {
+        role: 'assistant',
+        content: reply.message || '',
+        functionCalls: reply.functionCalls as Prisma.InputJsonValue | null
       })
+      return { ...reply, conversation: saved.conversation }
+    }
 
-      return NextResponse.json({
-        message: finalResponse.choices[0].message.content,
-        functionCalls: message.tool_calls
-          .filter(tc => tc.type === 'function')
-          .map(tc => ({
-            name: tc.function.name,
-            arguments: JSON.parse(tc.function.arguments)
-          }))
+    if (stream) {
+      const body = new ReadableStream({
+        async start(controller) {
+          const send: SendEvent = (event, data) => controller.enqueue(encodeSSE(event, data))
+
+          try {
+            send('message', await respond(send))
+          } catch (error) {
+            console.error('Chat API error:', error)
+            send('error', { error: 'Failed to generate response' })
+          } finally {
+            controller.close()
+          }
+        }
       })
+
+      return new Response(body, { headers: SSE_HEADERS })
     }
 
-    return NextResponse.json({
-      message: message.content,
-      functionCalls: null
-    })
+    return NextResponse.json(await respond())
   } catch (error) {
     console.error('Chat API error:', error)
     return NextResponse.json(
@@ -151,3 +128,158 @@ Examples:
     )
   }
 }
+
+// The base prompt followed by what's known about the student and the conversation
+function systemPrompt(base: string, profile: string | null, summary: string | null) {
+  return [base, profile, summary && `Earlier in this conversation: ${summary}`].filter(Boolean).join('\n\n')
+}
+
+async function generateReply(
+  { summary, messages }: ConversationContext,
+  profile: string | null,
+  userId: string | undefined,
+  conversationId: string | undefined,
+  send?: SendEvent
+) {
+  const history: LLMMessage[] = [
+    { role: 'system', content: systemPrompt(SYSTEM_PROMPT, profile, summary) },
+    ...messages
+  ]
+  const functionCalls: FunctionCallRecord[] = []
+
+  // Keep executing tool calls until the model answers or the step limit is hit
+  for (let step = 1; step <= MAX_TOOL_STEPS; step++) {
+    const overQuota = step > 1 && await chargeCompletion(userId)
+    if (overQuota) return { message: overQuota, functionCalls }
+
+    const message = await complete({ messages: history, tools: functions }, send)
+
+    if (message.toolCalls.length === 0) {
+      return {
+        message: message.content,
+        functionCalls: functionCalls.length > 0 ? functionCalls : null
+      }
+    }
+
+    history.push({ role: 'assistant', content: message.content, toolCalls: message.toolCalls })
+
+    // Read-only calls in the same step run in parallel; writes run one at a time in order
+    const reads = message.toolCalls.filter(tc => getTool(tc.name)?.access === 'read')
+    const writes = message.toolCalls.filter(tc => getTool(tc.name)?.access !== 'read')
+
+    const records = await Promise.all(
+      reads.map(toolCall => executeToolCall(toolCall, step, userId, conversationId, send))
+    )
+    for (const toolCall of writes) {
+      records.push(await executeToolCall(toolCall, step, userId, conversationId, send))
+    }
+
+    // Tool results must follow the assistant message in the order the calls were made
+    records.sort((a, b) =>
+      message.toolCalls.findIndex(tc => tc.id === a.id) - message.toolCalls.findIndex(tc => tc.id === b.id)
+    )
+
+    for (const record of records) {
+      functionCalls.push(record)
+      history.push({
+        toolCallId: record.id,
+        role: 'tool',
+        content: JSON.stringify(record.result)
+      })
+    }
+  }
+
+  // Step limit reached - get a final answer without offering more tools
+  const overQuota = await chargeCompletion(userId)
+  if (overQuota) return { message: overQuota, functionCalls }
+
+  const finalResponse = await complete({
+    messages: [
+      { role: 'system', content: systemPrompt(FOLLOW_UP_PROMPT, profile, summary) },
+      ...history.slice(1)
+    ]
+  }, send)
+
+  return {
+    message: finalResponse.content,
+    functionCalls
+  }
+}
+
+async function executeToolCall(
+  toolCall: LLMToolCall,
+  step: number,
+  userId: string | undefined,
+  conversationId: string | undefined,
+  send?: SendEvent
+): Promise<FunctionCallRecord> {
+  let functionArgs: Record<string, unknown> = {}
+  let result: unknown
+
+  try {
+    functionArgs = JSON.parse(toolCall.arguments)
+  } catch {
+    result = { success: false, error: 'Arguments were not valid JSON' }
+  }
+
+  send?.('tool_call_started', { id: toolCall.id, step, name: toolCall.name, arguments: functionArgs })
+
+  if (!result) {
+    try {
+      result = await handleFunctionCall(toolCall.name, functionArgs, { userId, conversationId, source: 'chat' })
+    } catch (error) {
+      // Report failures back to the model so it can recover instead of aborting the turn
+      console.error(`Error executing ${toolCall.name}:`, error)
+      result = { success: false, error: (error as Error).message }
+    }
+  }
+
+  send?.('tool_call_finished', { id: toolCall.id, step, name: toolCall.name, summary: summarizeResult(result) })
+
+  return {
+    id: toolCall.id,
+    step,
+    name: toolCall.name,
+    arguments: functionArgs,
+    result
+  }
+}
+
+// Counts a completion against the user's daily quota. Once it's used up, returns
+// the message to end the turn with instead.
+async function chargeCompletion(userId: string | undefined): Promise<string | null> {
+  if (!userId) return null
+
+  const quota = await consume('completions', userId)
+  if (quota.allowed) return null
+
+  return `You've reached today's limit of ${quota.limit} AI replies. It resets ${formatRetryAfter(quota.retryAfterSeconds)}.`
+}
+
+// Run a completion, forwarding text deltas when a stream is open
+async function complete(options: LLMChatOptions, send?: SendEvent): Promise<LLMChatResult> {
+  const llm = getLLM()
+  if (!send) return llm.chat(options)
+
+  let result: LLMChatResult = { content: null, toolCalls: [] }
+  for await (const event of llm.stream(options)) {
+    if (event.type === 'delta') {
+      send('delta', { content: event.content })
+    } else {
+      result = event.result
+    }
+  }
+
+  return result
+}
+
+// Short, human-readable description of a tool result for progress events
+function summarizeResult(result: unknown): string {
+  if (result && typeof result === 'object') {
+    if ('message' in result && typeof result.message === 'string') return result.message
+    if ('error' in result && typeof result.error === 'string') return `Failed: ${result.error}`
+  }
+
+  const json = JSON.stringify(result)
+  return json.length > 200 ? `${json.slice(0, 197)}...` : json
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { notFound, requireClassroom, requireUser } from '@/lib/authz'
+
+// DELETE /api/classrooms/[id]/assignments/[assignmentId] - Withdraw an assignment.
+// Students keep their copies of an assigned flashcard set.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; assignmentId: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { id, assignmentId } = await params
+
+    const classroom = await requireClassroom(auth.data, id)
+    if (!classroom.success) return classroom.response
+
+    const { count } = await prisma.assignment.deleteMany({
+      where: { id: assignmentId, classroomId: id }
+    })
+
+    if (count === 0) return notFound('Assignment')
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting assignment:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete assignment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { requireClassroom, requireOwner, requireUser } from '@/lib/authz'
+import { assignmentInclude, describeAssignment } from '@/lib/classrooms'
+
+const assignmentSchema = z.object({
+  quizId: z.string().optional(),
+  flashcardSetId: z.string().optional(),
+  dueAt: z.coerce.date()
+}).refine(a => !a.quizId !== !a.flashcardSetId, 'Assign either a quiz or a flashcard set')
+
+// POST /api/classrooms/[id]/assignments - Assign one of the teacher's quizzes or
+// flashcard sets to the class
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const user = auth.data
+
+    const { id } = await params
+
+    const classroom = await requireClassroom(user, id)
+    if (!classroom.success) return classroom.response
+
+    const parsed = assignmentSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      )
+    }
+
+    const { quizId, flashcardSetId, dueAt } = parsed.data
+
+    // Only the teacher's own material can be assigned
+    if (quizId) {
+      const quiz = await prisma.quiz.findUnique({
+        where: { id: quizId },
+        select: { userId: true }
+      })
+
+      const owned = requireOwner(user, quiz, q => q.userId, 'Quiz')
+      if (!owned.success) return owned.response
+    } else {
+      const flashcardSet = await prisma.flashcardSet.findUnique({
+        where: { id: flashcardSetId },
+        select: { userId: true }
+      })
+
+      const owned = requireOwner(user, flashcardSet, s => s.userId, 'Flashcard set')
+      if (!owned.success) return owned.response
+    }
+
+    const assignment = await prisma.assignment.create({
+      data: {
+        classroomId: id,
+        quizId,
+        flashcardSetId,
+        dueAt
+      },
+      include: assignmentInclude
+    })
+
+    return NextResponse.json({ assignment: describeAssignment(assignment) })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating assignment:', error)
+    return NextResponse.json(
+      { error: 'Failed to create assignment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { forbidden, notFound, requireUser } from '@/lib/authz'
+
+// DELETE /api/classrooms/[id]/members/[userId] - Remove a student from a class.
+// Teachers can remove anyone from their class; students can leave.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const user = auth.data
+
+    const { id, userId } = await params
+
+    const classroom = await prisma.classroom.findUnique({
+      where: { id },
+      select: { teacherId: true }
+    })
+
+    if (!classroom) return notFound('Classroom')
+
+    if (userId !== user.userId && classroom.teacherId !== user.userId) {
+      return forbidden()
+    }
+
+    const { count } = await prisma.classroomMember.deleteMany({
+      where: { classroomId: id, userId }
+    })
+
+    if (count === 0) return notFound('Member')
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing classroom member:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove classroom member' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireClassroom, requireUser } from '@/lib/authz'
+import { assignmentInclude, describeAssignment, loadProgress, progressKey } from '@/lib/classrooms'
+
+// GET /api/classrooms/[id] - The class dashboard: assignments, and each
+// student's progress on them and study totals since joining (teacher only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { id } = await params
+
+    const classroom = await requireClassroom(auth.data, id)
+    if (!classroom.success) return classroom.response
+
+    const [members, assignments] = await Promise.all([
+      prisma.classroomMember.findMany({
+        where: { classroomId: id },
+        include: { user: { select: { id: true, name: true, email: true } } },
+        orderBy: { joinedAt: 'asc' }
+      }),
+      prisma.assignment.findMany({
+        where: { classroomId: id },
+        include: assignmentInclude,
+        orderBy: { dueAt: 'asc' }
+      })
+    ])
+
+    const userIds = members.map(m => m.userId)
+
+    const [progress, study] = await Promise.all([
+      loadProgress(assignments, userIds),
+      members.length > 0
+        ? prisma.studySession.groupBy({
+            by: ['userId'],
+            where: { OR: members.map(m => ({ userId: m.userId, startedAt: { gte: m.joinedAt } })) },
+            _sum: { duration: true },
+            _count: { _all: true },
+            _max: { completedAt: true }
+          })
+        : []
+    ])
+
+    const { name, joinCode, createdAt } = classroom.data
+
+    return NextResponse.json({
+      classroom: { id, name, joinCode, createdAt },
+      assignments: assignments.map(describeAssignment),
+      students: members.map(m => {
+        const totals = study.find(s => s.userId === m.userId)
+        return {
+          id: m.user.id,
+          name: m.user.name || m.user.email,
+          email: m.user.email,
+          joinedAt: m.joinedAt,
+          study: {
+            sessions: totals?._count._all ?? 0,
+            minutes: totals?._sum.duration ?? 0,
+            lastStudiedAt: totals?._max.completedAt ?? null
+          },
+          progress: Object.fromEntries(
+            assignments.map(a => [a.id, progress.get(progressKey(a.id, m.userId))])
+          )
+        }
+      })
+    })
+  } catch (error) {
+    console.error('Error fetching classroom:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch classroom' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/classrooms/[id] - Delete a class with its memberships and assignments.
+// Students keep their copies of assigned flashcard sets.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { id } = await params
+
+    const classroom = await requireClassroom(auth.data, id)
+    if (!classroom.success) return classroom.response
+
+    await prisma.classroom.delete({
+      where: { id }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting classroom:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete classroom' },
+      { status: 500 }
+    )
+  }
+}
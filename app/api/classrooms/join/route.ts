@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireUser } from '@/lib/authz'
+import { normalizeJoinCode } from '@/lib/classrooms'
+
+// POST /api/classrooms/join - Join a class with its join code
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const userId = auth.data.userId
+    const { code } = await request.json()
+
+    const classroom = typeof code === 'string'
+      ? await prisma.classroom.findUnique({
+          where: { joinCode: normalizeJoinCode(code) },
+          select: { id: true, name: true, teacherId: true }
+        })
+      : null
+
+    if (!classroom) {
+      return NextResponse.json(
+        { error: 'No class found with that code' },
+        { status: 404 }
+      )
+    }
+
+    if (classroom.teacherId === userId) {
+      return NextResponse.json(
+        { error: 'You teach this class' },
+        { status: 400 }
+      )
+    }
+
+    // Joining twice is harmless
+    await prisma.classroomMember.upsert({
+      where: { classroomId_userId: { classroomId: classroom.id, userId } },
+      create: { classroomId: classroom.id, userId },
+      update: {}
+    })
+
+    return NextResponse.json({ classroom: { id: classroom.id, name: classroom.name } })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error joining classroom:', error)
+    return NextResponse.json(
+      { error: 'Failed to join classroom' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireTeacher, requireUser } from '@/lib/authz'
+import { generateJoinCode } from '@/lib/classrooms'
+
+// GET /api/classrooms - Classes the user teaches and classes they've joined
+export async function GET() {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const userId = auth.data.userId
+
+    const [teaching, memberships] = await Promise.all([
+      prisma.classroom.findMany({
+        where: { teacherId: userId },
+        include: {
+          _count: { select: { members: true, assignments: true } }
+        },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.classroomMember.findMany({
+        where: { userId },
+        include: {
+          classroom: {
+            select: {
+              id: true,
+              name: true,
+              teacher: { select: { name: true, email: true } }
+            }
+          }
+        },
+        orderBy: { joinedAt: 'desc' }
+      })
+    ])
+
+    return NextResponse.json({
+      teaching: teaching.map(({ _count, ...classroom }) => ({
+        ...classroom,
+        studentCount: _count.members,
+        assignmentCount: _count.assignments
+      })),
+      enrolled: memberships.map(m => ({
+        id: m.classroom.id,
+        name: m.classroom.name,
+        teacherName: m.classroom.teacher.name || m.classroom.teacher.email,
+        joinedAt: m.joinedAt
+      }))
+    })
+  } catch (error) {
+    console.error('Error fetching classrooms:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch classrooms' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/classrooms - Create a class (teachers only)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireTeacher()
+    if (!auth.success) return auth.response
+
+    const { name } = await request.json()
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { error: 'Class name is required' },
+        { status: 400 }
+      )
+    }
+
+    const classroom = await prisma.classroom.create({
+      data: {
+        name: name.trim().slice(0, 100),
+        teacherId: auth.data.userId,
+        joinCode: generateJoinCode()
+      }
+    })
+
+    return NextResponse.json({ classroom })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error creating classroom:', error)
+    return NextResponse.json(
+      { error: 'Failed to create classroom' },
+      { status: 500 }
+    )
+  }
+}
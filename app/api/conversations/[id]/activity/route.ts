@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireConversation, requireUser } from '@/lib/authz'
+
+const ACTIVITY_LIMIT = 100
+
+// GET /api/conversations/[id]/activity - Tool calls made in a conversation, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { id: conversationId } = await params
+
+    const owned = await requireConversation(auth.data, conversationId)
+    if (!owned.success) return owned.response
+
+    const invocations = await prisma.toolInvocation.findMany({
+      where: { conversationId },
+      select: {
+        id: true,
+        toolName: true,
+        arguments: true,
+        result: true,
+        error: true,
+        durationMs: true,
+        source: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' },
+      take: ACTIVITY_LIMIT
+    })
+
+    return NextResponse.json({ invocations })
+  } catch (error) {
+    console.error('Error fetching conversation activity:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation activity' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,34 +1,55 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { requireConversation, requireUser } from '@/lib/authz'
+import { saveMessage } from '@/lib/conversations'
+import { hasOpenCall } from '@/lib/realtime'
 
-// POST /api/conversations/[id]/messages - Add a message to a conversation
+const messageSchema = z.object({
+  role: z.enum(['user', 'assistant'], 'role must be user or assistant'),
+  content: z.string(),
+  audioUrl: z.string().nullish()
+})
+
+// POST /api/conversations/[id]/messages - Add a message to a conversation.
+// Text chat replies are saved by /api/chat; tutor messages are only accepted
+// here as voice transcripts, while a voice call for the conversation is open.
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
     const { id: conversationId } = await params
-    const body = await request.json()
-    const { role, content, audioUrl, functionCalls } = body
-
-    const message = await prisma.message.create({
-      data: {
-        conversationId,
-        role,
-        content,
-        audioUrl,
-        functionCalls: functionCalls || null
-      }
-    })
-
-    // Update conversation's updatedAt
-    await prisma.conversation.update({
-      where: { id: conversationId },
-      data: { updatedAt: new Date() }
-    })
-
-    return NextResponse.json({ message })
+
+    const owned = await requireConversation(auth.data, conversationId)
+    if (!owned.success) return owned.response
+
+    const parsed = messageSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      )
+    }
+
+    if (parsed.data.role === 'assistant' && !await hasOpenCall(auth.data.userId, conversationId)) {
+      return NextResponse.json(
+        { error: 'Tutor messages come from /api/chat or a voice call' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json(await saveMessage(owned.data, parsed.data))
   } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
     console.error('Error creating message:', error)
     return NextResponse.json(
       { error: 'Failed to create message' },
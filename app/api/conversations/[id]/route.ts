@@ -1,35 +1,96 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
 import { prisma } from '@/lib/db'
+import { requireConversation, requireOwner, requireUser } from '@/lib/authz'
+import { pageParams, pageQuery, toPage } from '@/lib/pagination'
 
-// GET /api/conversations/[id] - Get a specific conversation with messages
+const renameSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(100, 'Title must be at most 100 characters')
+})
+
+// GET /api/conversations/[id]?limit=&cursor= - Get a conversation with its
+// latest messages. nextCursor pages back through older ones; each page is in
+// chronological order.
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
     const { id } = await params
+    const page = pageParams(request.nextUrl.searchParams, 50)
 
     const conversation = await prisma.conversation.findUnique({
       where: { id },
       include: {
         messages: {
-          orderBy: { createdAt: 'asc' }
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          ...pageQuery(page)
         }
       }
     })
 
-    if (!conversation) {
+    const owned = requireOwner(auth.data, conversation, c => c.userId, 'Conversation')
+    if (!owned.success) return owned.response
+
+    const { items: messages, nextCursor } = toPage(owned.data.messages, page.limit)
+
+    return NextResponse.json({
+      conversation: { ...owned.data, messages: messages.reverse() },
+      nextCursor
+    })
+  } catch (error) {
+    console.error('Error fetching conversation:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/conversations/[id] - Rename a conversation. It keeps the new
+// title instead of being titled automatically.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { id } = await params
+
+    const owned = await requireConversation(auth.data, id)
+    if (!owned.success) return owned.response
+
+    const parsed = renameSchema.safeParse(await request.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Conversation not found' },
-        { status: 404 }
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
       )
     }
 
+    const conversation = await prisma.conversation.update({
+      where: { id },
+      data: { title: parsed.data.title, titledAt: new Date() },
+      select: { id: true, title: true, subject: true, topics: true }
+    })
+
     return NextResponse.json({ conversation })
   } catch (error) {
-    console.error('Error fetching conversation:', error)
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error renaming conversation:', error)
     return NextResponse.json(
-      { error: 'Failed to fetch conversation' },
+      { error: 'Failed to rename conversation' },
       { status: 500 }
     )
   }
@@ -41,8 +102,19 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
     const { id } = await params
 
+    const conversation = await prisma.conversation.findUnique({
+      where: { id },
+      select: { userId: true }
+    })
+
+    const owned = requireOwner(auth.data, conversation, c => c.userId, 'Conversation')
+    if (!owned.success) return owned.response
+
     await prisma.conversation.delete({
       where: { id }
     })
@@ -1,30 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getCurrentUser } from '@/lib/auth'
+import { requireUser } from '@/lib/authz'
+import { pageParams, pageQuery, toPage } from '@/lib/pagination'
 
-// GET /api/conversations - Get all conversations for a user
+// GET /api/conversations?subject=&limit=&cursor= - A page of the user's
+// conversations, most recently active first, with the subjects they can be
+// filtered by
 export async function GET(request: NextRequest) {
   try {
-    const auth = await getCurrentUser()
-    if (!auth) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      )
-    }
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
 
-    const conversations = await prisma.conversation.findMany({
-      where: { userId: auth.userId },
-      include: {
-        messages: {
-          orderBy: { createdAt: 'desc' },
-          take: 1
-        }
-      },
-      orderBy: { updatedAt: 'desc' }
-    })
+    const userId = auth.data.userId
+    const subject = request.nextUrl.searchParams.get('subject') || undefined
+    const page = pageParams(request.nextUrl.searchParams)
+
+    const [rows, subjects] = await Promise.all([
+      prisma.conversation.findMany({
+        where: { userId, subject },
+        include: {
+          messages: {
+            orderBy: { createdAt: 'desc' },
+            take: 1
+          }
+        },
+        orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+        ...pageQuery(page)
+      }),
+      prisma.conversation.findMany({
+        where: { userId, subject: { not: null } },
+        select: { subject: true },
+        distinct: ['subject'],
+        orderBy: { subject: 'asc' }
+      })
+    ])
 
-    return NextResponse.json({ conversations })
+    const { items: conversations, nextCursor } = toPage(rows, page.limit)
+
+    return NextResponse.json({
+      conversations,
+      subjects: subjects.map(c => c.subject),
+      nextCursor
+    })
   } catch (error) {
     console.error('Error fetching conversations:', error)
     return NextResponse.json(
@@ -37,21 +54,18 @@ export async function GET(request: NextRequest) {
 // POST /api/conversations - Create a new conversation
 export async function POST(request: NextRequest) {
   try {
-    const auth = await getCurrentUser()
-    if (!auth) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      )
-    }
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
 
     const body = await request.json()
-    const { title = 'New Conversation' } = body
+    const { title } = body
 
+    // Without a title, one is generated after the first exchange
     const conversation = await prisma.conversation.create({
       data: {
-        userId: auth.userId,
-        title
+        userId: auth.data.userId,
+        title: title || 'New Conversation',
+        titledAt: title ? new Date() : null
       }
     })
 
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authz'
+import { MESSAGE_ROLES, searchMessages } from '@/lib/conversations'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Dates (YYYY-MM-DD) or timestamps; null when missing, undefined when invalid.
+// With endOfDay, a bare date gives the start of the next day.
+function parseDate(value: string | null, endOfDay = false): Date | null | undefined {
+  if (!value) return null
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return undefined
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(date.getTime() + DAY_MS) : date
+}
+
+// GET /api/conversations/search?q=&role=&from=&to= - Search message content
+// across the user's conversations. from and to are inclusive dates.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const searchParams = request.nextUrl.searchParams
+    const q = searchParams.get('q')?.trim()
+    const role = MESSAGE_ROLES.find(r => r === searchParams.get('role'))
+    const from = parseDate(searchParams.get('from'))
+    const to = parseDate(searchParams.get('to'), true)
+    // Clamped to 1..50, since a negative LIMIT is an SQL error
+    const limit = Math.min(Math.max(Math.floor(Number(searchParams.get('limit'))) || 20, 1), 50)
+
+    if (!q) {
+      return NextResponse.json(
+        { error: 'Search query is required' },
+        { status: 400 }
+      )
+    }
+
+    if (from === undefined || to === undefined) {
+      return NextResponse.json(
+        { error: 'Invalid date' },
+        { status: 400 }
+      )
+    }
+
+    const results = await searchMessages({
+      userId: auth.data.userId,
+      query: q,
+      role,
+      from: from ?? undefined,
+      to: to ?? undefined,
+      limit
+    })
+
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error('Error searching conversations:', error)
+    return NextResponse.json(
+      { error: 'Failed to search conversations' },
+      { status: 500 }
+    )
+  }
+}
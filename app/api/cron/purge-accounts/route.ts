@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { unauthorized } from '@/lib/authz'
+import { purgeDeletedAccounts } from '@/lib/accounts'
+
+// GET /api/cron/purge-accounts - Delete accounts whose grace period is over.
+// Called daily by Vercel Cron (vercel.json), which sends CRON_SECRET.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return unauthorized()
+    }
+
+    const deleted = await purgeDeletedAccounts()
+
+    return NextResponse.json({ deleted })
+  } catch (error) {
+    console.error('Error purging deleted accounts:', error)
+    return NextResponse.json(
+      { error: 'Failed to purge deleted accounts' },
+      { status: 500 }
+    )
+  }
+}
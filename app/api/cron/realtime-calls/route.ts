@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { unauthorized } from '@/lib/authz'
+import { hangUpUnpaidCalls } from '@/lib/realtime'
+
+// GET /api/cron/realtime-calls - Hang up voice calls that have run past the
+// minutes paid for them. Called every minute by Vercel Cron (vercel.json),
+// which sends CRON_SECRET.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return unauthorized()
+    }
+
+    const ended = await hangUpUnpaidCalls()
+
+    return NextResponse.json({ ended })
+  } catch (error) {
+    console.error('Error hanging up unpaid realtime calls:', error)
+    return NextResponse.json(
+      { error: 'Failed to hang up unpaid calls' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getCurrentUser } from '@/lib/auth'
+import { requireOwner, requireUser } from '@/lib/authz'
+
+// GET /api/flashcards/[id] - A flashcard set with all of its cards
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { id } = await params
+
+    const flashcardSet = await prisma.flashcardSet.findUnique({
+      where: { id },
+      include: {
+        flashcards: {
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    })
+
+    const owned = requireOwner(auth.data, flashcardSet, set => set.userId, 'Flashcard set')
+    if (!owned.success) return owned.response
+
+    return NextResponse.json({ flashcardSet: owned.data })
+  } catch (error) {
+    console.error('Error fetching flashcard set:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch flashcard set' },
+      { status: 500 }
+    )
+  }
+}
 
 // DELETE /api/flashcards/[id] - Delete a flashcard set
 export async function DELETE(
@@ -8,14 +41,10 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
 
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const user = auth.data
 
     const { id } = await params
 
@@ -25,19 +54,8 @@ export async function DELETE(
       select: { userId: true }
     })
 
-    if (!flashcardSet) {
-      return NextResponse.json(
-        { error: 'Flashcard set not found' },
-        { status: 404 }
-      )
-    }
-
-    if (flashcardSet.userId !== user.userId) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 403 }
-      )
-    }
+    const owned = requireOwner(user, flashcardSet, set => set.userId, 'Flashcard set')
+    if (!owned.success) return owned.response
 
     // Delete the flashcard set (this will cascade delete flashcards due to schema)
     await prisma.flashcardSet.delete({
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { requireOwner, requireUser } from '@/lib/authz'
+import { reviewRatings, scheduleReview } from '@/lib/srs'
+
+const reviewSchema = z.object({
+  rating: z.enum(reviewRatings)
+})
+
+// POST /api/flashcards/cards/[id]/review - Record a review and schedule the next one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const user = auth.data
+
+    const { id } = await params
+    const parsed = reviewSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `rating must be one of: ${reviewRatings.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    // First verify the flashcard belongs to this user
+    const flashcard = await prisma.flashcard.findUnique({
+      where: { id },
+      include: { set: { select: { userId: true } } }
+    })
+
+    const owned = requireOwner(user, flashcard, card => card.set.userId, 'Flashcard')
+    if (!owned.success) return owned.response
+
+    const now = new Date()
+    const next = scheduleReview(owned.data, parsed.data.rating, now)
+
+    const updated = await prisma.flashcard.update({
+      where: { id },
+      data: {
+        ...next,
+        lastReviewedAt: now
+      }
+    })
+
+    return NextResponse.json({ flashcard: updated })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error reviewing flashcard:', error)
+    return NextResponse.json(
+      { error: 'Failed to review flashcard' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireUser } from '@/lib/authz'
+import { endOfToday, timezoneOffsetParam } from '@/lib/srs'
+
+// GET /api/flashcards/due?limit=&tzOffset= - Cards due today, in the client's
+// time zone, across all of the user's sets
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const user = auth.data
+
+    const { searchParams } = request.nextUrl
+    const limit = Math.min(Math.max(Math.floor(Number(searchParams.get('limit'))) || 50, 1), 200)
+    const where = {
+      set: { userId: user.userId },
+      dueAt: { lte: endOfToday(new Date(), timezoneOffsetParam(searchParams)) }
+    }
+
+    const [flashcards, total] = await Promise.all([
+      prisma.flashcard.findMany({
+        where,
+        include: { set: { select: { id: true, topic: true } } },
+        orderBy: { dueAt: 'asc' },
+        take: limit
+      }),
+      prisma.flashcard.count({ where })
+    ])
+
+    return NextResponse.json({ flashcards, total })
+  } catch (error) {
+    console.error('Error fetching due flashcards:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch due flashcards' },
+      { status: 500 }
+    )
+  }
+}
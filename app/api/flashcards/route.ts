@@ -1,26 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { requireUser } from '@/lib/authz'
+import { pageParams, pageQuery, toPage } from '@/lib/pagination'
+import { endOfToday, timezoneOffsetParam } from '@/lib/srs'
 
+// GET /api/flashcards?limit=&cursor=&tzOffset= - A page of the user's flashcard
+// sets, newest first, with how many cards each has and how many are due today
+// in the client's time zone.
+// The cards themselves come from GET /api/flashcards/[id].
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams
-    const userId = searchParams.get('userId')
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
 
-    if (!userId) {
-      return NextResponse.json({ error: 'userId is required' }, { status: 400 })
-    }
+    const page = pageParams(request.nextUrl.searchParams)
 
-    const flashcardSets = await prisma.flashcardSet.findMany({
-      where: { userId },
+    const rows = await prisma.flashcardSet.findMany({
+      where: { userId: auth.data.userId },
       include: {
-        flashcards: {
-          orderBy: { createdAt: 'asc' }
-        }
+        _count: { select: { flashcards: true } }
       },
-      orderBy: { createdAt: 'desc' }
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...pageQuery(page)
     })
 
-    return NextResponse.json({ flashcardSets })
+    const { items, nextCursor } = toPage(rows, page.limit)
+
+    const due = await prisma.flashcard.groupBy({
+      by: ['setId'],
+      where: {
+        setId: { in: items.map(set => set.id) },
+        dueAt: { lte: endOfToday(new Date(), timezoneOffsetParam(request.nextUrl.searchParams)) }
+      },
+      _count: true
+    })
+    const dueBySet = new Map(due.map(d => [d.setId, d._count]))
+
+    const flashcardSets = items.map(({ _count, ...set }) => ({
+      ...set,
+      cardCount: _count.flashcards,
+      dueCount: dueBySet.get(set.id) ?? 0
+    }))
+
+    return NextResponse.json({ flashcardSets, nextCursor })
   } catch (error) {
     console.error('Error fetching flashcards:', error)
     return NextResponse.json(
@@ -1,32 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { handleFunctionCall } from '@/lib/functions'
+import { getTool } from '@/lib/tools'
 import { getCurrentUser } from '@/lib/auth'
+import { requireConversation, unauthorized } from '@/lib/authz'
 
 // POST /api/functions - Execute a function call
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { name, arguments: args, conversationId } = body
+    const { name, arguments: args = {}, conversationId, source } = body
 
-    // Get user from session
+    // Get user from session; some tools (e.g. resource search) work signed out
     const user = await getCurrentUser()
-    const userId = user?.userId || args.userId
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User not authenticated' },
-        { status: 401 }
-      )
+    if (!user && getTool(name)?.requiresAuth) {
+      return unauthorized()
     }
 
-    // Inject userId and conversationId into arguments if not present
-    const enrichedArgs = {
-      ...args,
-      userId,
-      conversationId: conversationId || args.conversationId
+    // Tools may only attach what they create to the caller's own conversation
+    if (user && conversationId) {
+      const owned = await requireConversation(user, conversationId)
+      if (!owned.success) return owned.response
     }
 
-    const result = await handleFunctionCall(name, enrichedArgs)
+    const result = await handleFunctionCall(name, args, {
+      userId: user?.userId,
+      conversationId: user ? conversationId : undefined,
+      // The voice client says so; anything else is a direct API call
+      source: source === 'voice' ? 'voice' : 'api'
+    })
 
     return NextResponse.json({ result })
   } catch (error) {
@@ -1,26 +1,103 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/db'
+import { requireQuiz, requireUser } from '@/lib/authz'
+import { verifyAccountToken } from '@/lib/auth'
+import { gradeQuiz, modelGradedCount } from '@/lib/grading'
+import { limitByUser } from '@/lib/ratelimit'
+import { attemptSchema, normalizeQuestions } from '@/lib/quiz'
+import { recordQuizResult } from '@/lib/learnerProfile'
 
+// POST /api/quizzes/[id]/attempts - Grade submitted answers and save the
+// attempt. Returns the questions with their answers, for reviewing it.
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const user = auth.data
+
     const { id: quizId } = await params
-    const body = await request.json()
-    const { score, answers } = body
+
+    // The owner, or a student the quiz was assigned to
+    const quiz = await requireQuiz(user, quizId)
+    if (!quiz.success) return quiz.response
+
+    const questions = normalizeQuestions(quiz.data.questions)
+    const parsed = attemptSchema(questions).safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid quiz submission',
+          issues: parsed.error.issues.map(issue => ({
+            path: issue.path.join('.'),
+            message: issue.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const { attemptToken, answers: submitted } = parsed.data
+
+    // Timed from when the quiz was loaded, not from a time the browser reports
+    const started = await verifyAccountToken('quiz-attempt', attemptToken)
+    if (!started?.tokenId || started.userId !== user.userId || started.fingerprint !== quizId) {
+      return NextResponse.json(
+        { error: 'This attempt has expired. Reload the quiz to try again.' },
+        { status: 400 }
+      )
+    }
+
+    // Each loaded quiz is submitted once; the response reveals the answers
+    const previous = await prisma.quizAttempt.findUnique({
+      where: { attemptTokenId: started.tokenId },
+      select: { id: true }
+    })
+    if (previous) return alreadySubmitted()
+
+    const graded = modelGradedCount(questions, submitted)
+    if (graded > 0) {
+      const limited = await limitByUser(user.userId, 'completions', 'AI replies', graded)
+      if (limited) return limited
+    }
+
+    const startedAt = started.issuedAt
+    const { answers, score } = await gradeQuiz(questions, submitted)
+    const completedAt = new Date()
 
     const attempt = await prisma.quizAttempt.create({
       data: {
         quizId,
+        userId: user.userId,
         score,
-        answers: answers as any,
-        completedAt: new Date()
+        answers,
+        startedAt,
+        attemptTokenId: started.tokenId,
+        timeTakenSeconds: Math.max(0, Math.round((completedAt.getTime() - startedAt.getTime()) / 1000)),
+        completedAt
       }
     })
+    await recordQuizResult(user.userId, quiz.data.topic, score)
 
-    return NextResponse.json({ attempt })
+    return NextResponse.json({ attempt, questions })
   } catch (error) {
+    // The same attempt submitted twice at once
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return alreadySubmitted()
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
     console.error('Error saving quiz attempt:', error)
     return NextResponse.json(
       { error: 'Failed to save quiz attempt' },
@@ -28,3 +105,10 @@ export async function POST(
     )
   }
 }
+
+function alreadySubmitted() {
+  return NextResponse.json(
+    { error: 'This attempt was already submitted. Reload the quiz to try again.' },
+    { status: 409 }
+  )
+}
@@ -1,6 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { getCurrentUser } from '@/lib/auth'
+import { requireOwner, requireQuiz, requireUser } from '@/lib/authz'
+import { createAccountToken } from '@/lib/auth'
+import { normalizeQuestions, withoutAnswerKey } from '@/lib/quiz'
+
+// How long a loaded quiz can be worked on before it has to be reloaded to submit
+const ATTEMPT_TTL_SECONDS = 60 * 60 * 24
+
+// GET /api/quizzes/[id] - A quiz to take, for its owner or a student it was
+// assigned to. Questions come without their answers; attemptToken records when
+// the attempt started and is submitted, once, with the answers.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { id } = await params
+
+    const quiz = await requireQuiz(auth.data, id)
+    if (!quiz.success) return quiz.response
+
+    const { subject, topic, createdAt } = quiz.data
+    const questions = normalizeQuestions(quiz.data.questions).map(withoutAnswerKey)
+    const attemptToken = await createAccountToken('quiz-attempt', auth.data.userId, id, ATTEMPT_TTL_SECONDS)
+
+    return NextResponse.json({
+      quiz: { id, subject, topic, questions, createdAt },
+      attemptToken
+    })
+  } catch (error) {
+    console.error('Error fetching quiz:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch quiz' },
+      { status: 500 }
+    )
+  }
+}
 
 // DELETE /api/quizzes/[id] - Delete a quiz
 export async function DELETE(
@@ -8,14 +46,10 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const user = await getCurrentUser()
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
 
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const user = auth.data
 
     const { id } = await params
 
@@ -25,19 +59,8 @@ export async function DELETE(
       select: { userId: true }
     })
 
-    if (!quiz) {
-      return NextResponse.json(
-        { error: 'Quiz not found' },
-        { status: 404 }
-      )
-    }
-
-    if (quiz.userId !== user.userId) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 403 }
-      )
-    }
+    const owned = requireOwner(user, quiz, q => q.userId, 'Quiz')
+    if (!owned.success) return owned.response
 
     // Delete the quiz (this will cascade delete attempts due to schema)
     await prisma.quiz.delete({
@@ -1,27 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { requireUser } from '@/lib/authz'
+import { pageParams, pageQuery, toPage } from '@/lib/pagination'
 
+// GET /api/quizzes?limit=&cursor= - A page of the user's quizzes, newest
+// first, each with its question count and latest attempt. The questions
+// themselves (without answers) come from GET /api/quizzes/[id].
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams
-    const userId = searchParams.get('userId')
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
 
-    if (!userId) {
-      return NextResponse.json({ error: 'userId is required' }, { status: 400 })
-    }
+    const page = pageParams(request.nextUrl.searchParams)
 
-    const quizzes = await prisma.quiz.findMany({
-      where: { userId },
+    const rows = await prisma.quiz.findMany({
+      where: { userId: auth.data.userId },
       include: {
         attempts: {
+          where: { userId: auth.data.userId },
           orderBy: { createdAt: 'desc' },
           take: 1
         }
       },
-      orderBy: { createdAt: 'desc' }
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...pageQuery(page)
     })
 
-    return NextResponse.json({ quizzes })
+    const { items, nextCursor } = toPage(rows, page.limit)
+    const quizzes = items.map(({ questions, ...quiz }) => ({
+      ...quiz,
+      questionCount: Array.isArray(questions) ? questions.length : 0
+    }))
+
+    return NextResponse.json({ quizzes, nextCursor })
   } catch (error) {
     console.error('Error fetching quizzes:', error)
     return NextResponse.json(
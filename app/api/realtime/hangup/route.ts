@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { notFound, requireUser } from '@/lib/authz'
+import { refund } from '@/lib/ratelimit'
+import { findOpenCall, hangUp } from '@/lib/realtime'
+
+// POST /api/realtime/hangup - End the caller's voice call ({ callId }). Whole
+// minutes paid for but not used go back to today's quota.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { callId } = await request.json()
+    const call = typeof callId === 'string' ? await findOpenCall(auth.data.userId, callId) : null
+    if (!call) return notFound('Call')
+
+    await hangUp(call.id)
+
+    const unused = Math.floor((call.paidUntil.getTime() - Date.now()) / (60 * 1000))
+    if (unused > 0) {
+      await refund('realtimeMinutes', auth.data.userId, unused, call.createdAt)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error hanging up realtime call:', error)
+    return NextResponse.json(
+      { error: 'Failed to hang up' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,44 +1,84 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { requireConversation, requireUser } from '@/lib/authz'
+import { consume, limitByUser } from '@/lib/ratelimit'
+import { buildContext, REALTIME_CONTEXT_TOKENS } from '@/lib/context'
+import { learnerProfilePrompt } from '@/lib/learnerProfile'
+import { openCall, RealtimeCallError } from '@/lib/realtime'
 
-// POST /api/realtime - Get ephemeral token for OpenAI Realtime API
+// Each call prepays this many minutes (or what's left of today's quota); the
+// client pays for each further minute through /api/realtime/usage
+const PREPAID_MINUTES = Number(process.env.REALTIME_PREPAID_MINUTES) || 5
+
+// POST /api/realtime - Open a voice call with OpenAI Realtime API from the
+// browser's WebRTC offer ({ sdp }). Returns OpenAI's answer and the call id,
+// with the learner profile for the session instructions. With
+// { conversationId }, also returns the conversation's summary and recent
+// turns to start with.
 export async function POST(request: NextRequest) {
   try {
-    const openaiApiKey = process.env.OPENAI_API_KEY
+    // Calls spend our OpenAI quota, so only signed-in users get one
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
 
-    if (!openaiApiKey) {
+    const { conversationId, sdp } = await request.json()
+    if (typeof sdp !== 'string' || !sdp) {
+      return NextResponse.json(
+        { error: 'sdp is required' },
+        { status: 400 }
+      )
+    }
+    if (conversationId) {
+      const owned = await requireConversation(auth.data, conversationId)
+      if (!owned.success) return owned.response
+    }
+
+    if (!process.env.OPENAI_API_KEY) {
       return NextResponse.json(
         { error: 'OpenAI API key not configured' },
         { status: 500 }
       )
     }
 
-    // Request a client secret from OpenAI Realtime GA API
-    const response = await fetch('https://api.openai.com/v1/realtime/client_secrets', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({}),
+    const { remaining } = await consume('realtimeMinutes', auth.data.userId, 0)
+    const prepaidMinutes = Math.max(1, Math.min(PREPAID_MINUTES, remaining))
+    const limited = await limitByUser(auth.data.userId, 'realtimeMinutes', 'voice minutes', prepaidMinutes)
+    if (limited) return limited
+
+    const { callId, answer } = await openCall({
+      userId: auth.data.userId,
+      conversationId: conversationId || null,
+      offer: sdp,
+      prepaidMinutes
     })
 
-    if (!response.ok) {
-      const error = await response.text()
-      console.error('OpenAI API error:', error)
+    const context = conversationId
+      ? await buildContext(conversationId, REALTIME_CONTEXT_TOKENS)
+      : null
+    const profile = await learnerProfilePrompt(auth.data.userId)
+
+    return NextResponse.json({
+      callId,
+      sdp: answer,
+      prepaidMinutes,
+      context,
+      profile
+    })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
       return NextResponse.json(
-        { error: 'Failed to create session', details: error },
-        { status: response.status }
+        { error: 'Invalid JSON body' },
+        { status: 400 }
       )
     }
 
-    const data = await response.json()
+    if (error instanceof RealtimeCallError) {
+      console.error('OpenAI API error:', error.details)
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      )
+    }
 
-    // Response structure: { value: "ek_...", expires_at: 1234567890, session: {...} }
-    return NextResponse.json({
-      token: data.value,
-      expiresAt: data.expires_at
-    })
-  } catch (error) {
     console.error('Error creating realtime session:', error)
     return NextResponse.json(
       { error: 'Failed to create session' },
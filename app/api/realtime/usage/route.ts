@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { notFound, requireUser } from '@/lib/authz'
+import { limitByUser } from '@/lib/ratelimit'
+import { extendCall, findOpenCall, hangUp } from '@/lib/realtime'
+
+// POST /api/realtime/usage - Called by the voice client with { callId } as each
+// minute past the prepaid ones starts, to pay for it. A 429 means the daily
+// voice quota is used up; the call has been hung up.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const { callId } = await request.json()
+    const call = typeof callId === 'string' ? await findOpenCall(auth.data.userId, callId) : null
+    if (!call) return notFound('Call')
+
+    const limited = await limitByUser(auth.data.userId, 'realtimeMinutes', 'voice minutes')
+    if (limited) {
+      await hangUp(call.id)
+      return limited
+    }
+
+    await extendCall(call.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error recording realtime usage:', error)
+    return NextResponse.json(
+      { error: 'Failed to record usage' },
+      { status: 500 }
+    )
+  }
+}
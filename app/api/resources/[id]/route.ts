@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { notFound, requireAdmin } from '@/lib/authz'
+
+// DELETE /api/resources/[id] - Remove a resource from the catalog (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAdmin()
+    if (!auth.success) return auth.response
+
+    const { id } = await params
+
+    const { count } = await prisma.learningResource.deleteMany({
+      where: { id }
+    })
+
+    if (count === 0) return notFound('Resource')
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting learning resource:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete learning resource' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAdmin, requireUser } from '@/lib/authz'
+import { importResources, searchResources } from '@/lib/catalog'
+import { parseCSV, resourceLevels, resourceTypes } from '@/lib/resources'
+
+const MAX_IMPORT = 1000
+
+// GET /api/resources?q=&type=&level= - Search the catalog, or list the newest entries without q
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser()
+    if (!auth.success) return auth.response
+
+    const searchParams = request.nextUrl.searchParams
+    const q = searchParams.get('q')?.trim()
+    const type = resourceTypes.find(t => t === searchParams.get('type'))
+    const level = resourceLevels.find(l => l === searchParams.get('level'))
+    const limit = Math.min(Math.max(Math.floor(Number(searchParams.get('limit'))) || 20, 1), 100)
+
+    const resources = q
+      ? await searchResources({ query: q, type, level, limit })
+      : await prisma.learningResource.findMany({
+          where: { type, level },
+          orderBy: { createdAt: 'desc' },
+          take: limit
+        })
+
+    return NextResponse.json({ resources })
+  } catch (error) {
+    console.error('Error fetching learning resources:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch learning resources' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/resources - Import resources (admin only). Accepts a JSON array,
+// { resources: [...] }, or CSV (Content-Type: text/csv) with a header row.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin()
+    if (!auth.success) return auth.response
+
+    let records: unknown
+    if (request.headers.get('content-type')?.includes('text/csv')) {
+      records = parseCSV(await request.text())
+    } else {
+      const body = await request.json()
+      records = Array.isArray(body) ? body : body?.resources
+    }
+
+    if (!Array.isArray(records) || records.length === 0) {
+      return NextResponse.json(
+        { error: 'No resources to import' },
+        { status: 400 }
+      )
+    }
+
+    if (records.length > MAX_IMPORT) {
+      return NextResponse.json(
+        { error: `Import at most ${MAX_IMPORT} resources at a time` },
+        { status: 400 }
+      )
+    }
+
+    const result = await importResources(records)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid resources', issues: result.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ created: result.created, updated: result.updated })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error importing learning resources:', error)
+    return NextResponse.json(
+      { error: 'Failed to import learning resources' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/db'
+import { ROLES } from '@/lib/auth'
+import { notFound, requireAdmin } from '@/lib/authz'
+
+const updateSchema = z.object({
+  role: z.enum(ROLES)
+})
+
+// PATCH /api/users/[id] - Change a user's role (admin only). The new role
+// reaches their tokens the next time those are refreshed.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAdmin()
+    if (!auth.success) return auth.response
+
+    const { id } = await params
+    const parsed = updateSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `role must be one of: ${ROLES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id },
+      data: { role: parsed.data.role }
+    })
+
+    if (count === 0) return notFound('User')
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating user:', error)
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    )
+  }
+}
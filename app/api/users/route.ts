@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { requireAdmin } from '@/lib/authz'
+
+// GET /api/users?email=...&role=... - Look up users (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin()
+    if (!auth.success) return auth.response
+
+    const { searchParams } = new URL(request.url)
+    const email = searchParams.get('email')
+    const role = searchParams.get('role')
+
+    const users = await prisma.user.findMany({
+      where: {
+        email: email ? { contains: email, mode: 'insensitive' } : undefined,
+        role: role || undefined
+      },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    })
+
+    return NextResponse.json({ users })
+  } catch (error) {
+    console.error('Error fetching users:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+}
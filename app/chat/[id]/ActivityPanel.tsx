@@ -0,0 +1,132 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ToolSource } from '@/lib/functions'
+
+interface ToolInvocation {
+  id: string
+  toolName: string
+  arguments: unknown
+  result: unknown
+  error: string | null
+  durationMs: number
+  source: ToolSource
+  createdAt: string
+}
+
+const SOURCE_LABELS: Record<ToolSource, string> = {
+  chat: 'Text',
+  voice: 'Voice',
+  api: 'API'
+}
+
+async function loadActivity(conversationId: string): Promise<ToolInvocation[]> {
+  const response = await fetch(`/api/conversations/${conversationId}/activity`)
+  if (!response.ok) throw new Error('Failed to load activity')
+  const { invocations } = await response.json()
+  return invocations
+}
+
+// Side panel listing the tools called in this conversation, newest first
+export default function ActivityPanel({ conversationId, onClose }: { conversationId: string; onClose: () => void }) {
+  const [invocations, setInvocations] = useState<ToolInvocation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  // Bumped by the refresh button to load again
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    loadActivity(conversationId)
+      .then(data => {
+        setInvocations(data)
+        setError('')
+      })
+      .catch(err => {
+        console.error('Error loading activity:', err)
+        setError('Failed to load activity.')
+      })
+      .finally(() => setIsLoading(false))
+  }, [conversationId, version])
+
+  const refresh = () => {
+    setIsLoading(true)
+    setVersion(v => v + 1)
+  }
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-20 flex w-full max-w-md flex-col border-l border-gray-200 bg-white shadow-xl">
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-4">
+        <h2 className="text-lg font-semibold text-gray-900">Activity</h2>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={refresh}
+            disabled={isLoading}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={onClose}
+            className="text-gray-600 hover:text-gray-900"
+            title="Close activity"
+          >
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4">
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        {isLoading && invocations.length === 0 ? (
+          <p className="text-sm text-gray-600">Loading activity...</p>
+        ) : invocations.length === 0 ? (
+          <p className="text-sm text-gray-600">No tools have been called in this conversation yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {invocations.map(invocation => (
+              <li key={invocation.id} className="rounded-lg border border-gray-200 p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono font-medium text-gray-900">{invocation.toolName}</span>
+                  <span className={`rounded px-2 py-0.5 text-xs font-medium ${
+                    invocation.error ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+                  }`}>
+                    {invocation.error ? 'Failed' : 'OK'}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {SOURCE_LABELS[invocation.source] ?? invocation.source}
+                  {' · '}{invocation.durationMs} ms
+                  {' · '}{new Date(invocation.createdAt).toLocaleString()}
+                </p>
+                {invocation.error && (
+                  <p className="mt-2 text-red-600">{invocation.error}</p>
+                )}
+                <details className="mt-2">
+                  <summary className="cursor-pointer text-xs font-medium text-gray-600 hover:text-gray-900">
+                    Details
+                  </summary>
+                  <p className="mt-2 text-xs font-medium text-gray-700">Arguments</p>
+                  <pre className="mt-1 max-h-48 overflow-auto rounded bg-gray-50 p-2 text-xs text-gray-800">
+                    {JSON.stringify(invocation.arguments, null, 2)}
+                  </pre>
+                  {invocation.result !== null && (
+                    <>
+                      <p className="mt-2 text-xs font-medium text-gray-700">Result</p>
+                      <pre className="mt-1 max-h-48 overflow-auto rounded bg-gray-50 p-2 text-xs text-gray-800">
+                        {JSON.stringify(invocation.result, null, 2)}
+                      </pre>
+                    </>
+                  )}
+                </details>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </aside>
+  )
+}
@@ -1,13 +1,18 @@
 'use client'
 
-import { useEffect, useState, useRef, use } from 'react'
-import { useRouter } from 'next/navigation'
+import { useEffect, useLayoutEffect, useState, useRef, use } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { useRealtime } from '@/hooks/useRealtime'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll'
 import ReactMarkdown from 'react-markdown'
 import remarkMath from 'remark-math'
 import rehypeKatex from 'rehype-katex'
 import 'katex/dist/katex.min.css'
 import { cache } from '@/lib/cache'
+import { readSSE } from '@/lib/sse'
+import { toolCacheKeys } from '@/lib/tools'
+import ActivityPanel from './ActivityPanel'
 
 interface Message {
   id: string
@@ -17,12 +22,38 @@ interface Message {
   functionCalls?: any
 }
 
+interface FunctionCallRecord {
+  id: string
+  step: number
+  name: string
+  arguments: Record<string, unknown>
+  result: unknown
+}
+
+interface ChatReply {
+  message: string | null
+  functionCalls: FunctionCallRecord[] | null
+  conversation?: { title: string } | null
+}
+
 interface Conversation {
   id: string
   title: string
   messages: Message[]
 }
 
+// The conversation with its latest messages; nextCursor pages back through older ones
+interface ConversationPage {
+  conversation: Conversation
+  nextCursor: string | null
+}
+
+async function fetchConversationPage(id: string, cursor?: string): Promise<ConversationPage> {
+  const response = await fetch(`/api/conversations/${id}${cursor ? `?cursor=${cursor}` : ''}`)
+  if (!response.ok) throw new Error('Failed to load conversation')
+  return response.json()
+}
+
 export default function ChatPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params)
   const router = useRouter()
@@ -31,35 +62,25 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
   const [inputText, setInputText] = useState('')
   const [isLoading, setIsLoading] = useState(true)
   const [isGenerating, setIsGenerating] = useState(false)
-  const [userId, setUserId] = useState<string | null>(null)
+  const userId = useCurrentUser()?.id
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
+  const [showActivity, setShowActivity] = useState(false)
+  const [olderCursor, setOlderCursor] = useState<string | null>(null)
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false)
+  const messagesContainerRef = useRef<HTMLDivElement>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
-  useEffect(() => {
-    checkAuth()
-  }, [])
+  // Distance from the bottom to keep when older messages are added above
+  const restoreScrollRef = useRef<number | null>(null)
+  const hasScrolledRef = useRef(false)
 
-  const checkAuth = async () => {
-    try {
-      const response = await fetch('/api/auth/me')
-      if (!response.ok) {
-        router.push('/login')
-        return
-      }
-      const data = await response.json()
-      setUserId(data.user.id)
-    } catch (error) {
-      console.error('Auth check error:', error)
-      router.push('/login')
-    }
-  }
+  // Message to scroll to and highlight, when opened from search results
+  const highlightedId = useSearchParams().get('message')
+  const hasJumpedRef = useRef(false)
 
   const realtime = useRealtime({
     conversationId: id,
     userId: userId || '',
-    conversationHistory: messages.map(m => ({
-      role: m.role,
-      content: m.content
-    })),
     onMessage: async (msg) => {
       console.log('🎯 onMessage called:', msg.role, msg.content.substring(0, 50))
 
@@ -89,7 +110,10 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
           role: msg.role,
           content: msg.content
         })
-      }).catch(err => console.error('Failed to save message:', err))
+      })
+        .then(r => r.json())
+        .then(applyTitle)
+        .catch(err => console.error('Failed to save message:', err))
     },
     onFunctionCall: (name, args) => {
       console.log('Function called:', name, args)
@@ -101,11 +125,9 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
         functionCalls: { name, args }
       }])
 
-      // Invalidate cache when flashcards or quizzes are created
-      if (name === 'generate_flashcards' && userId) {
-        cache.invalidate(`flashcards:${userId}`)
-      } else if (name === 'create_quiz' && userId) {
-        cache.invalidate(`quizzes:${userId}`)
+      // Invalidate caches the tool may have made stale
+      if (userId) {
+        toolCacheKeys(name, userId).forEach(key => cache.invalidate(key))
       }
     },
     onError: (error) => {
@@ -118,31 +140,71 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
     loadConversation()
   }, [id])
 
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages])
+  // Runs before paint so added messages never show at the wrong position
+  useLayoutEffect(() => {
+    const restoreFrom = restoreScrollRef.current
+    restoreScrollRef.current = null
+
+    // Once loaded, show the searched-for message; after that, follow new ones
+    const target = highlightedId && !hasJumpedRef.current
+      ? document.getElementById(`message-${highlightedId}`)
+      : null
+    if (target) {
+      hasJumpedRef.current = true
+      hasScrolledRef.current = true
+      target.scrollIntoView({ block: 'center' })
+      return
+    }
+
+    const container = messagesContainerRef.current
+    if (restoreFrom !== null && container) {
+      container.scrollTop = container.scrollHeight - restoreFrom
+      return
+    }
+
+    if (!messagesEndRef.current) return
+
+    // Jump to the end on load, so the top of the page isn't what comes into view first
+    messagesEndRef.current.scrollIntoView({ behavior: hasScrolledRef.current ? 'smooth' : 'auto' })
+    hasScrolledRef.current = true
+  }, [messages, highlightedId])
 
   const loadConversation = async () => {
-    // Check cache first
+    // Check cache first (it holds the latest messages and any older ones paged in for search)
     const cacheKey = `conversation:${id}`
-    const cached = cache.get<Conversation>(cacheKey)
-
-    if (cached) {
-      setConversation(cached)
-      setMessages(cached.messages || [])
+    const cached = cache.get<ConversationPage>(cacheKey)
+    const hasHighlighted = (page: ConversationPage) =>
+      !highlightedId || page.conversation.messages.some(m => m.id === highlightedId)
+
+    if (cached && hasHighlighted(cached)) {
+      setConversation(cached.conversation)
+      setMessages(cached.conversation.messages || [])
+      setOlderCursor(cached.nextCursor)
       setIsLoading(false)
       return
     }
 
     try {
-      const response = await fetch(`/api/conversations/${id}`)
-      const { conversation: conv } = await response.json()
+      let page = await fetchConversationPage(id)
+
+      // Opened from search: page back until the message is loaded
+      while (!hasHighlighted(page) && page.nextCursor) {
+        const older = await fetchConversationPage(id, page.nextCursor)
+        page = {
+          conversation: {
+            ...page.conversation,
+            messages: [...older.conversation.messages, ...page.conversation.messages]
+          },
+          nextCursor: older.nextCursor
+        }
+      }
 
       // Cache the result
-      cache.set(cacheKey, conv)
+      cache.set(cacheKey, page)
 
-      setConversation(conv)
-      setMessages(conv.messages || [])
+      setConversation(page.conversation)
+      setMessages(page.conversation.messages || [])
+      setOlderCursor(page.nextCursor)
     } catch (error) {
       console.error('Error loading conversation:', error)
     } finally {
@@ -150,6 +212,61 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
     }
   }
 
+  const loadOlderMessages = async () => {
+    if (!olderCursor || isLoadingOlder) return
+
+    setIsLoadingOlder(true)
+    try {
+      const { conversation: older, nextCursor } = await fetchConversationPage(id, olderCursor)
+
+      const container = messagesContainerRef.current
+      if (container) {
+        restoreScrollRef.current = container.scrollHeight - container.scrollTop
+      }
+
+      setMessages(prev => [...older.messages, ...prev])
+      setOlderCursor(nextCursor)
+    } catch (error) {
+      console.error('Error loading older messages:', error)
+    } finally {
+      setIsLoadingOlder(false)
+    }
+  }
+
+  const loadOlderRef = useInfiniteScroll(loadOlderMessages)
+
+  // The server titles the conversation after the tutor's first reply
+  const applyTitle = (data: { conversation?: { title: string } | null }) => {
+    if (!data.conversation) return
+
+    const { title } = data.conversation
+    setConversation(prev => prev && { ...prev, title })
+    cache.invalidate(`conversation:${id}`)
+    cache.invalidate('conversations')
+  }
+
+  const renameConversation = async () => {
+    const title = prompt('Rename conversation', conversation?.title)?.trim()
+    if (!title || title === conversation?.title) return
+
+    try {
+      const response = await fetch(`/api/conversations/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to rename conversation')
+      }
+
+      applyTitle(await response.json())
+    } catch (error) {
+      console.error('Error renaming conversation:', error)
+      alert('Failed to rename conversation. Please try again.')
+    }
+  }
+
   const handleSendText = async () => {
     if (!inputText.trim() || isGenerating) return
 
@@ -180,54 +297,124 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
       realtime.sendMessage(messageText)
       setIsGenerating(false)
     } else {
-      // Use text-based API as fallback
+      // Use text-based API as fallback, streaming the reply as it is generated
       try {
         const response = await fetch('/api/chat', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
+          // The server reads the history (just saved above) from the conversation
           body: JSON.stringify({
-            messages: messages.concat(userMessage).map(m => ({
-              role: m.role,
-              content: m.content
-            })),
-            conversationId: id
+            conversationId: id,
+            stream: true
           })
         })
 
-        const data = await response.json()
+        // Out of AI replies for today: show the server's explanation
+        if (response.status === 429) {
+          const { error } = await response.json()
+          setMessages(prev => [...prev, {
+            id: Date.now().toString(),
+            role: 'system',
+            content: error,
+            createdAt: new Date().toISOString()
+          }])
+          return
+        }
 
-        const assistantMessage: Message = {
-          id: Date.now().toString(),
-          role: 'assistant',
-          content: data.message,
-          createdAt: new Date().toISOString(),
-          functionCalls: data.functionCalls
+        if (!response.ok) {
+          throw new Error('Failed to get response')
         }
 
-        setMessages(prev => [...prev, assistantMessage])
+        // Id of the assistant bubble currently receiving deltas
+        let assistantId: string | null = null
+        let reply = null as ChatReply | null
+
+        await readSSE(response, (event, data) => {
+          const payload = data as {
+            content: string
+            id: string
+            name: string
+            arguments: Record<string, unknown>
+            summary: string
+            error: string
+          }
+
+          switch (event) {
+            case 'delta': {
+              if (!assistantId) {
+                const newId: string = `${Date.now()}-assistant`
+                assistantId = newId
+                setStreamingMessageId(newId)
+                setMessages(prev => [...prev, {
+                  id: newId,
+                  role: 'assistant',
+                  content: payload.content,
+                  createdAt: new Date().toISOString()
+                }])
+              } else {
+                const currentId = assistantId
+                setMessages(prev => prev.map(m =>
+                  m.id === currentId ? { ...m, content: m.content + payload.content } : m
+                ))
+              }
+              break
+            }
+            case 'tool_call_started':
+              // Text after the tool runs goes into a new bubble below the call
+              assistantId = null
+              setStreamingMessageId(null)
+              setMessages(prev => [...prev, {
+                id: `${Date.now()}-${payload.id}`,
+                role: 'system',
+                content: `Calling function: ${payload.name}...`,
+                createdAt: new Date().toISOString(),
+                functionCalls: { name: payload.name, args: payload.arguments }
+              }])
+              break
+            case 'tool_call_finished':
+              setMessages(prev => prev.map(m =>
+                m.id.endsWith(`-${payload.id}`) ? { ...m, content: payload.summary } : m
+              ))
+              break
+            case 'message':
+              reply = data as ChatReply
+              break
+            case 'error':
+              throw new Error(payload.error)
+          }
+        })
 
-        // Save assistant message to database
-        await fetch(`/api/conversations/${id}/messages`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
+        if (!reply) {
+          throw new Error('Response ended without a message')
+        }
+        const { message: content, functionCalls } = reply
+
+        if (assistantId) {
+          const currentId: string = assistantId
+          setMessages(prev => prev.map(m =>
+            m.id === currentId ? { ...m, content: content || m.content, functionCalls } : m
+          ))
+        } else if (content) {
+          setMessages(prev => [...prev, {
+            id: `${Date.now()}-assistant`,
             role: 'assistant',
-            content: data.message
-          })
-        })
+            content,
+            createdAt: new Date().toISOString(),
+            functionCalls
+          }])
+        }
+
+        // The reply was saved with the conversation, every tool call included
+        applyTitle(reply)
 
         // Invalidate cache since messages changed
         cache.invalidate(`conversation:${id}`)
         cache.invalidate('conversations')
 
-        // Invalidate quizzes/flashcards cache if function was called
-        if (data.functionCalls && userId) {
-          data.functionCalls.forEach((call: any) => {
-            if (call.name === 'generate_flashcards') {
-              cache.invalidate(`flashcards:${userId}`)
-            } else if (call.name === 'create_quiz') {
-              cache.invalidate(`quizzes:${userId}`)
-            }
+        // Invalidate caches made stale by any function that was called
+        if (functionCalls && userId) {
+          functionCalls.forEach(call => {
+            toolCacheKeys(call.name, userId).forEach(key => cache.invalidate(key))
           })
         }
       } catch (error) {
@@ -241,6 +428,7 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
         setMessages(prev => [...prev, errorMessage])
       } finally {
         setIsGenerating(false)
+        setStreamingMessageId(null)
       }
     }
   }
@@ -311,7 +499,13 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
               Quizzes
             </button>
             <div className="border-l border-gray-300 pl-4">
-              <h2 className="text-lg font-semibold text-gray-900">{conversation?.title}</h2>
+              <button
+                onClick={renameConversation}
+                className="text-lg font-semibold text-gray-900 hover:text-indigo-600"
+                title="Rename conversation"
+              >
+                {conversation?.title}
+              </button>
               <p className="text-sm text-gray-500">
                 {realtime.isConnected ? (
                   <span className="flex items-center gap-1">
@@ -324,21 +518,34 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
               </p>
             </div>
           </div>
-          <button
-            onClick={() => realtime.isConnected ? realtime.disconnect() : realtime.connect()}
-            className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
-              realtime.isConnected
-                ? 'bg-red-100 text-red-700 hover:bg-red-200'
-                : 'bg-indigo-600 text-white hover:bg-indigo-700'
-            }`}
-          >
-            {realtime.isConnected ? 'Disconnect' : 'Connect Voice'}
-          </button>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowActivity(open => !open)}
+              className="text-sm font-medium text-gray-700 hover:text-indigo-600"
+              title="Tools called in this conversation"
+            >
+              Activity
+            </button>
+            <button
+              onClick={() => realtime.isConnected ? realtime.disconnect() : realtime.connect()}
+              className={`rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
+                realtime.isConnected
+                  ? 'bg-red-100 text-red-700 hover:bg-red-200'
+                  : 'bg-indigo-600 text-white hover:bg-indigo-700'
+              }`}
+            >
+              {realtime.isConnected ? 'Disconnect' : 'Connect Voice'}
+            </button>
+          </div>
         </div>
       </header>
 
+      {showActivity && (
+        <ActivityPanel conversationId={id} onClose={() => setShowActivity(false)} />
+      )}
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto">
+      <div ref={messagesContainerRef} className="flex-1 overflow-y-auto">
         <div className="container mx-auto max-w-4xl px-6 py-8">
           {messages.length === 0 ? (
             <div className="text-center py-12">
@@ -354,13 +561,18 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
             </div>
           ) : (
             <div className="space-y-4">
+              {olderCursor && !isLoadingOlder && <div key={olderCursor} ref={loadOlderRef} />}
+              {isLoadingOlder && <p className="text-center text-sm text-gray-500">Loading earlier messages...</p>}
               {messages.map((message) => (
                 <div
                   key={message.id}
+                  id={`message-${message.id}`}
                   className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
                 >
                   <div
                     className={`max-w-[80%] rounded-2xl px-4 py-3 ${
+                      message.id === highlightedId ? 'ring-4 ring-yellow-300 ' : ''
+                    }${
                       message.role === 'user'
                         ? 'bg-indigo-600 text-white'
                         : message.role === 'system'
@@ -374,7 +586,9 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                         </svg>
-                        Function: {message.functionCalls.name}
+                        Function: {Array.isArray(message.functionCalls)
+                          ? message.functionCalls.map((call: FunctionCallRecord) => call.name).join(' → ')
+                          : message.functionCalls.name}
                       </div>
                     )}
                     <div className="prose prose-sm max-w-none prose-p:my-2 prose-ul:my-2 prose-ol:my-2 prose-li:my-0">
@@ -388,7 +602,7 @@ export default function ChatPage({ params }: { params: Promise<{ id: string }> }
                   </div>
                 </div>
               ))}
-              {isGenerating && (
+              {isGenerating && !streamingMessageId && (
                 <div className="flex justify-start">
                   <div className="max-w-[80%] rounded-2xl px-4 py-3 bg-white text-gray-900 shadow-sm border border-gray-200">
                     <div className="flex items-center gap-2">
@@ -0,0 +1,384 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import type { AssignmentProgress } from '@/lib/classrooms'
+
+type Assignment = {
+  id: string
+  kind: 'quiz' | 'flashcards'
+  title: string
+  subject: string | null
+  dueAt: string
+}
+
+type Student = {
+  id: string
+  name: string
+  email: string
+  joinedAt: string
+  study: {
+    sessions: number
+    minutes: number
+    lastStudiedAt: string | null
+  }
+  progress: Record<string, AssignmentProgress>
+}
+
+type Dashboard = {
+  classroom: {
+    id: string
+    name: string
+    joinCode: string
+  }
+  assignments: Assignment[]
+  students: Student[]
+}
+
+// The teacher's quizzes and flashcard sets, for the assign form
+type Assignable = {
+  quizzes: { id: string; subject: string; topic: string }[]
+  flashcardSets: { id: string; topic: string }[]
+}
+
+async function loadDashboard(classroomId: string): Promise<Dashboard | null> {
+  const response = await fetch(`/api/classrooms/${classroomId}`)
+  if (!response.ok) return null
+  return response.json()
+}
+
+// The most recent 100 of each, the largest page the lists return
+async function loadAssignable(): Promise<Assignable> {
+  const [quizzesResponse, flashcardsResponse] = await Promise.all([
+    fetch('/api/quizzes?limit=100'),
+    fetch('/api/flashcards?limit=100')
+  ])
+  const { quizzes = [] } = await quizzesResponse.json()
+  const { flashcardSets = [] } = await flashcardsResponse.json()
+  return { quizzes, flashcardSets }
+}
+
+function formatProgress(progress: AssignmentProgress | undefined) {
+  if (!progress || progress.status === 'not_started') return '—'
+
+  if (progress.kind === 'quiz') {
+    const first = Math.round(progress.firstScore ?? 0)
+    const latest = Math.round(progress.latestScore ?? 0)
+    return progress.attempts > 1 ? `${first}% (${progress.attempts} attempts, latest ${latest}%)` : `${first}%`
+  }
+
+  return `${progress.cardsReviewed}/${progress.cardsTotal} cards`
+}
+
+function progressColor(progress: AssignmentProgress | undefined, dueAt: string) {
+  if (progress?.status === 'completed') {
+    if (progress.kind === 'quiz' && (progress.firstScore ?? 0) < 70) return 'text-yellow-700'
+    return 'text-green-700'
+  }
+  return new Date(dueAt) < new Date() ? 'text-red-600' : 'text-gray-600'
+}
+
+export default function ClassroomDashboardPage() {
+  const router = useRouter()
+  const params = useParams()
+  const classroomId = params.id as string
+
+  const [dashboard, setDashboard] = useState<Dashboard | null>(null)
+  const [assignable, setAssignable] = useState<Assignable>({ quizzes: [], flashcardSets: [] })
+  const [isLoading, setIsLoading] = useState(true)
+  const [item, setItem] = useState('')
+  const [dueDate, setDueDate] = useState('')
+
+  useEffect(() => {
+    Promise.all([loadDashboard(classroomId), loadAssignable()])
+      .then(([dashboardData, assignableData]) => {
+        if (!dashboardData) {
+          router.push('/classrooms')
+          return
+        }
+        setDashboard(dashboardData)
+        setAssignable(assignableData)
+      })
+      .catch(error => console.error('Error loading class:', error))
+      .finally(() => setIsLoading(false))
+  }, [classroomId, router])
+
+  const createAssignment = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    // "quiz:<id>" or "flashcards:<id>"
+    const [kind, itemId] = item.split(':')
+
+    try {
+      const response = await fetch(`/api/classrooms/${classroomId}/assignments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          quizId: kind === 'quiz' ? itemId : undefined,
+          flashcardSetId: kind === 'flashcards' ? itemId : undefined,
+          // Due at the end of the chosen day, in the teacher's time zone
+          dueAt: new Date(`${dueDate}T23:59:59`).toISOString()
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to create assignment')
+      }
+
+      setItem('')
+      setDueDate('')
+      setDashboard(await loadDashboard(classroomId))
+    } catch (error) {
+      console.error('Error creating assignment:', error)
+      alert('Failed to create assignment. Please try again.')
+    }
+  }
+
+  const deleteAssignment = async (assignment: Assignment) => {
+    if (!confirm(`Withdraw "${assignment.title}"? Students' results for it will no longer be shown here.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/classrooms/${classroomId}/assignments/${assignment.id}`, {
+        method: 'DELETE'
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete assignment')
+      }
+
+      setDashboard(prev => prev && {
+        ...prev,
+        assignments: prev.assignments.filter(a => a.id !== assignment.id)
+      })
+    } catch (error) {
+      console.error('Error deleting assignment:', error)
+      alert('Failed to withdraw assignment. Please try again.')
+    }
+  }
+
+  const removeStudent = async (student: Student) => {
+    if (!confirm(`Remove ${student.name} from this class?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/classrooms/${classroomId}/members/${student.id}`, {
+        method: 'DELETE'
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to remove student')
+      }
+
+      setDashboard(prev => prev && {
+        ...prev,
+        students: prev.students.filter(s => s.id !== student.id)
+      })
+    } catch (error) {
+      console.error('Error removing student:', error)
+      alert('Failed to remove student. Please try again.')
+    }
+  }
+
+  const deleteClassroom = async () => {
+    if (!confirm('Delete this class? Students will be removed and its assignments withdrawn.')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/classrooms/${classroomId}`, {
+        method: 'DELETE'
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete class')
+      }
+
+      router.push('/classrooms')
+    } catch (error) {
+      console.error('Error deleting class:', error)
+      alert('Failed to delete class. Please try again.')
+    }
+  }
+
+  if (isLoading || !dashboard) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-indigo-600 border-r-transparent"></div>
+          <p className="mt-4 text-gray-600">Loading class...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const { classroom, assignments, students } = dashboard
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <header className="border-b border-gray-200 bg-white shadow-sm">
+        <div className="container mx-auto flex items-center justify-between px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="text-2xl font-bold text-indigo-600 hover:text-indigo-700"
+            >
+              TutorFlow
+            </Link>
+            <Link
+              href="/classrooms"
+              className="text-gray-600 hover:text-gray-900"
+            >
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900">{classroom.name}</h1>
+          <button
+            onClick={deleteClassroom}
+            className="text-sm font-medium text-gray-600 hover:text-red-600"
+          >
+            Delete class
+          </button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8">
+        <div className="mb-8 rounded-lg border border-indigo-100 bg-white p-6 shadow-sm">
+          <p className="text-sm text-gray-600">Students join at /classrooms with this code:</p>
+          <p className="mt-1 font-mono text-3xl font-bold tracking-widest text-indigo-700">{classroom.joinCode}</p>
+        </div>
+
+        <section className="mb-10">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">Assignments</h2>
+
+          <form onSubmit={createAssignment} className="mb-4 flex flex-wrap gap-2">
+            <select
+              required
+              value={item}
+              onChange={(e) => setItem(e.target.value)}
+              className="min-w-64 flex-1 rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            >
+              <option value="">Choose a quiz or flashcard set...</option>
+              <optgroup label="Quizzes">
+                {assignable.quizzes.map(quiz => (
+                  <option key={quiz.id} value={`quiz:${quiz.id}`}>
+                    {quiz.topic} ({quiz.subject})
+                  </option>
+                ))}
+              </optgroup>
+              <optgroup label="Flashcard sets">
+                {assignable.flashcardSets.map(set => (
+                  <option key={set.id} value={`flashcards:${set.id}`}>
+                    {set.topic}
+                  </option>
+                ))}
+              </optgroup>
+            </select>
+            <input
+              type="date"
+              required
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            />
+            <button
+              type="submit"
+              className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+            >
+              Assign
+            </button>
+          </form>
+
+          {assignments.length > 0 && (
+            <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white shadow-sm">
+              {assignments.map(assignment => (
+                <li key={assignment.id} className="flex items-center justify-between px-6 py-3">
+                  <div>
+                    <p className="font-medium text-gray-900">{assignment.title}</p>
+                    <p className="text-sm text-gray-600">
+                      {assignment.kind === 'quiz' ? 'Quiz' : 'Flashcards'}
+                      {' · '}Due {new Date(assignment.dueAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => deleteAssignment(assignment)}
+                    className="text-sm font-medium text-gray-600 hover:text-red-600"
+                  >
+                    Withdraw
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section>
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">
+            Students ({students.length})
+          </h2>
+
+          {students.length === 0 ? (
+            <p className="text-sm text-gray-600">No one has joined yet. Share the join code above.</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white shadow-sm">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium text-gray-900">Student</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-900">Studied since joining</th>
+                    {assignments.map(assignment => (
+                      <th key={assignment.id} className="px-4 py-3 text-left font-medium text-gray-900">
+                        {assignment.title}
+                        <span className="block text-xs font-normal text-gray-500">
+                          Due {new Date(assignment.dueAt).toLocaleDateString()}
+                        </span>
+                      </th>
+                    ))}
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {students.map(student => (
+                    <tr key={student.id}>
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-gray-900">{student.name}</p>
+                        <p className="text-xs text-gray-500">{student.email}</p>
+                      </td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {student.study.minutes} min
+                        <span className="block text-xs text-gray-500">
+                          {student.study.sessions} session{student.study.sessions === 1 ? '' : 's'}
+                        </span>
+                      </td>
+                      {assignments.map(assignment => (
+                        <td
+                          key={assignment.id}
+                          className={`px-4 py-3 font-medium ${progressColor(student.progress[assignment.id], assignment.dueAt)}`}
+                        >
+                          {formatProgress(student.progress[assignment.id])}
+                        </td>
+                      ))}
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          onClick={() => removeStudent(student)}
+                          className="text-sm font-medium text-gray-600 hover:text-red-600"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  )
+}
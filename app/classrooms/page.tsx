@@ -0,0 +1,246 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+
+type TaughtClassroom = {
+  id: string
+  name: string
+  joinCode: string
+  studentCount: number
+  assignmentCount: number
+}
+
+type EnrolledClassroom = {
+  id: string
+  name: string
+  teacherName: string
+  joinedAt: string
+}
+
+type Classrooms = {
+  teaching: TaughtClassroom[]
+  enrolled: EnrolledClassroom[]
+}
+
+async function loadClassrooms(): Promise<Classrooms> {
+  const response = await fetch('/api/classrooms')
+  if (!response.ok) throw new Error('Failed to load classes')
+  return response.json()
+}
+
+export default function ClassroomsPage() {
+  const user = useCurrentUser()
+  const [classrooms, setClassrooms] = useState<Classrooms>({ teaching: [], enrolled: [] })
+  const [isLoading, setIsLoading] = useState(true)
+  const [joinCode, setJoinCode] = useState('')
+  const [joinError, setJoinError] = useState('')
+  const [newClassName, setNewClassName] = useState('')
+
+  const canTeach = user?.role === 'teacher' || user?.role === 'admin'
+
+  useEffect(() => {
+    loadClassrooms()
+      .then(setClassrooms)
+      .catch(error => console.error('Error loading classes:', error))
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const joinClassroom = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setJoinError('')
+
+    try {
+      const response = await fetch('/api/classrooms/join', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: joinCode })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setJoinError(data.error || 'Failed to join class')
+        return
+      }
+
+      setJoinCode('')
+      setClassrooms(await loadClassrooms())
+    } catch (error) {
+      console.error('Error joining class:', error)
+      setJoinError('Failed to join class. Please try again.')
+    }
+  }
+
+  const createClassroom = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const response = await fetch('/api/classrooms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newClassName })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to create class')
+      }
+
+      setNewClassName('')
+      setClassrooms(await loadClassrooms())
+    } catch (error) {
+      console.error('Error creating class:', error)
+      alert('Failed to create class. Please try again.')
+    }
+  }
+
+  const leaveClassroom = async (classroom: EnrolledClassroom) => {
+    if (!user || !confirm(`Leave ${classroom.name}? Its assignments will disappear from your home page.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/classrooms/${classroom.id}/members/${user.id}`, {
+        method: 'DELETE'
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to leave class')
+      }
+
+      setClassrooms(prev => ({
+        ...prev,
+        enrolled: prev.enrolled.filter(c => c.id !== classroom.id)
+      }))
+    } catch (error) {
+      console.error('Error leaving class:', error)
+      alert('Failed to leave class. Please try again.')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-indigo-600 border-r-transparent"></div>
+          <p className="mt-4 text-gray-600">Loading classes...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <header className="border-b border-gray-200 bg-white shadow-sm">
+        <div className="container mx-auto flex items-center justify-between px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="text-2xl font-bold text-indigo-600 hover:text-indigo-700"
+            >
+              TutorFlow
+            </Link>
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900">Classes</h1>
+          <div className="w-6"></div>
+        </div>
+      </header>
+
+      <main className="container mx-auto max-w-3xl px-6 py-8">
+        {canTeach && (
+          <section className="mb-10">
+            <h2 className="mb-4 text-lg font-semibold text-gray-900">Classes you teach</h2>
+
+            <form onSubmit={createClassroom} className="mb-4 flex gap-2">
+              <input
+                type="text"
+                required
+                value={newClassName}
+                onChange={(e) => setNewClassName(e.target.value)}
+                placeholder="New class name, e.g. Period 3 Biology"
+                className="flex-1 rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+              <button
+                type="submit"
+                className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+              >
+                Create class
+              </button>
+            </form>
+
+            {classrooms.teaching.length === 0 ? (
+              <p className="text-sm text-gray-600">Create a class, then share its join code with your students.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white shadow-sm">
+                {classrooms.teaching.map(classroom => (
+                  <li key={classroom.id}>
+                    <Link
+                      href={`/classrooms/${classroom.id}`}
+                      className="flex items-center justify-between px-6 py-4 hover:bg-gray-50"
+                    >
+                      <div>
+                        <p className="font-medium text-gray-900">{classroom.name}</p>
+                        <p className="text-sm text-gray-600">
+                          {classroom.studentCount} student{classroom.studentCount === 1 ? '' : 's'}
+                          {' · '}{classroom.assignmentCount} assignment{classroom.assignmentCount === 1 ? '' : 's'}
+                        </p>
+                      </div>
+                      <span className="rounded-lg bg-indigo-50 px-3 py-1 font-mono text-sm font-semibold tracking-wider text-indigo-700">
+                        {classroom.joinCode}
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+
+        <section>
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">Classes you&apos;re in</h2>
+
+          <form onSubmit={joinClassroom} className="mb-4">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                required
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value)}
+                placeholder="Join code from your teacher"
+                className="flex-1 rounded-lg border border-gray-300 px-4 py-2 font-mono uppercase text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+              />
+              <button
+                type="submit"
+                className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+              >
+                Join class
+              </button>
+            </div>
+            {joinError && <p className="mt-2 text-sm text-red-600">{joinError}</p>}
+          </form>
+
+          {classrooms.enrolled.length > 0 && (
+            <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white shadow-sm">
+              {classrooms.enrolled.map(classroom => (
+                <li key={classroom.id} className="flex items-center justify-between px-6 py-4">
+                  <div>
+                    <p className="font-medium text-gray-900">{classroom.name}</p>
+                    <p className="text-sm text-gray-600">
+                      {classroom.teacherName} · Joined {new Date(classroom.joinedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => leaveClassroom(classroom)}
+                    className="text-sm font-medium text-gray-600 hover:text-red-600"
+                  >
+                    Leave
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+    </div>
+  )
+}
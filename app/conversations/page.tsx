@@ -3,10 +3,13 @@
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { cache } from '@/lib/cache'
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll'
 
 interface Conversation {
   id: string
   title: string
+  subject: string | null
+  topics: string[]
   createdAt: string
   updatedAt: string
   messages: Array<{
@@ -16,55 +19,137 @@ interface Conversation {
   }>
 }
 
+interface ConversationList {
+  conversations: Conversation[]
+  subjects: string[]
+  nextCursor: string | null
+}
+
+// Only the first page of the unfiltered list is cached
+async function loadConversations(subject: string, cursor?: string): Promise<ConversationList> {
+  const cacheKey = 'conversations'
+  const isCacheable = !subject && !cursor
+  const cached = isCacheable ? cache.get<ConversationList>(cacheKey) : null
+  if (cached) return cached
+
+  const params = new URLSearchParams()
+  if (subject) params.set('subject', subject)
+  if (cursor) params.set('cursor', cursor)
+
+  const response = await fetch(`/api/conversations?${params}`)
+  if (!response.ok) {
+    throw new Error('Failed to load conversations')
+  }
+  const { conversations, subjects, nextCursor } = await response.json()
+
+  if (isCacheable) {
+    cache.set(cacheKey, { conversations, subjects, nextCursor })
+  }
+  return { conversations, subjects, nextCursor }
+}
+
+interface SearchResult {
+  messageId: string
+  conversationId: string
+  conversationTitle: string
+  role: string
+  createdAt: string
+  snippet: string
+}
+
+// Snippets wrap matched words in <mark> tags; render them as text, not HTML
+function renderSnippet(snippet: string) {
+  return snippet.split(/<mark>(.*?)<\/mark>/g).map((part, index) =>
+    index % 2 === 1
+      ? <mark key={index} className="rounded bg-yellow-200 px-0.5 text-gray-900">{part}</mark>
+      : part
+  )
+}
+
+async function searchConversations(filters: { query: string; role: string; from: string; to: string }): Promise<SearchResult[]> {
+  const params = new URLSearchParams({ q: filters.query })
+  if (filters.role) params.set('role', filters.role)
+  // Whole days in the user's time zone
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString())
+
+  const response = await fetch(`/api/conversations/search?${params}`)
+  if (!response.ok) throw new Error('Failed to search conversations')
+  const { results } = await response.json()
+  return results
+}
+
 export default function ConversationsPage() {
   const router = useRouter()
   const [conversations, setConversations] = useState<Conversation[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [subjects, setSubjects] = useState<string[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+
+  // Empty for every subject
+  const [subject, setSubject] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchRole, setSearchRole] = useState('')
+  const [searchFrom, setSearchFrom] = useState('')
+  const [searchTo, setSearchTo] = useState('')
+  const [isSearching, setIsSearching] = useState(false)
+
+  // Null when not searching
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null)
 
   useEffect(() => {
-    checkAuthAndLoad()
-  }, [])
+    loadConversations(subject)
+      .then(data => {
+        setConversations(data.conversations)
+        setSubjects(data.subjects)
+        setNextCursor(data.nextCursor)
+      })
+      .catch(error => console.error('Error loading conversations:', error))
+      .finally(() => setIsLoading(false))
+  }, [subject])
 
-  const checkAuthAndLoad = async () => {
-    try {
-      const authResponse = await fetch('/api/auth/me')
-      if (!authResponse.ok) {
-        router.push('/login')
-        return
-      }
-      await loadConversations()
-    } catch (error) {
-      console.error('Auth check error:', error)
-      router.push('/login')
-    }
+  const loadMore = () => {
+    if (!nextCursor || isLoadingMore) return
+
+    setIsLoadingMore(true)
+    loadConversations(subject, nextCursor)
+      .then(data => {
+        // Skip any that moved into an earlier page after new messages
+        setConversations(prev => [
+          ...prev,
+          ...data.conversations.filter(c => !prev.some(p => p.id === c.id))
+        ])
+        setNextCursor(data.nextCursor)
+      })
+      .catch(error => console.error('Error loading more conversations:', error))
+      .finally(() => setIsLoadingMore(false))
   }
 
-  const loadConversations = async () => {
-    // Check cache first
-    const cacheKey = 'conversations'
-    const cached = cache.get<Conversation[]>(cacheKey)
+  const loadMoreRef = useInfiniteScroll(loadMore)
 
-    if (cached) {
-      setConversations(cached)
-      setIsLoading(false)
-      return
-    }
+  const renameConversation = async (conversation: Conversation) => {
+    const title = prompt('Rename conversation', conversation.title)?.trim()
+    if (!title || title === conversation.title) return
 
     try {
-      const response = await fetch('/api/conversations')
+      const response = await fetch(`/api/conversations/${conversation.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title })
+      })
+
       if (!response.ok) {
-        throw new Error('Failed to load conversations')
+        throw new Error('Failed to rename conversation')
       }
-      const { conversations: convs } = await response.json()
 
-      // Cache the result
-      cache.set(cacheKey, convs)
+      setConversations(prev => prev.map(c => c.id === conversation.id ? { ...c, title } : c))
 
-      setConversations(convs)
+      cache.invalidate('conversations')
+      cache.invalidate(`conversation:${conversation.id}`)
     } catch (error) {
-      console.error('Error loading conversations:', error)
-    } finally {
-      setIsLoading(false)
+      console.error('Error renaming conversation:', error)
+      alert('Failed to rename conversation. Please try again.')
     }
   }
 
@@ -85,14 +170,44 @@ export default function ConversationsPage() {
     }
   }
 
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!searchQuery.trim()) {
+      setSearchResults(null)
+      return
+    }
+
+    setIsSearching(true)
+    try {
+      setSearchResults(await searchConversations({
+        query: searchQuery,
+        role: searchRole,
+        from: searchFrom,
+        to: searchTo
+      }))
+    } catch (error) {
+      console.error('Error searching conversations:', error)
+      alert('Search failed. Please try again.')
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const clearSearch = () => {
+    setSearchQuery('')
+    setSearchRole('')
+    setSearchFrom('')
+    setSearchTo('')
+    setSearchResults(null)
+  }
+
   const createNewConversation = async () => {
     try {
       const response = await fetch('/api/conversations', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          title: `Study Session ${new Date().toLocaleDateString()}`
-        })
+        // Titled automatically after the first exchange
+        body: JSON.stringify({})
       })
 
       if (!response.ok) {
@@ -179,7 +294,82 @@ export default function ConversationsPage() {
       </header>
 
       <main className="container mx-auto px-6 py-8">
-        {conversations.length === 0 ? (
+        {(conversations.length > 0 || subject) && (
+          <form onSubmit={handleSearch} className="mb-8 flex flex-wrap items-center gap-2">
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder='Search messages, e.g. "integration by parts"'
+              className="min-w-64 flex-1 rounded-lg border border-gray-300 px-4 py-2 text-gray-900 placeholder:text-gray-500 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            />
+            <select
+              value={searchRole}
+              onChange={(e) => setSearchRole(e.target.value)}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            >
+              <option value="">All messages</option>
+              <option value="user">My messages</option>
+              <option value="assistant">Tutor replies</option>
+            </select>
+            <input
+              type="date"
+              value={searchFrom}
+              onChange={(e) => setSearchFrom(e.target.value)}
+              title="From"
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            />
+            <input
+              type="date"
+              value={searchTo}
+              onChange={(e) => setSearchTo(e.target.value)}
+              title="To"
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            />
+            <button
+              type="submit"
+              disabled={isSearching}
+              className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isSearching ? 'Searching...' : 'Search'}
+            </button>
+            {searchResults && (
+              <button
+                type="button"
+                onClick={clearSearch}
+                className="text-sm font-medium text-gray-600 hover:text-gray-900"
+              >
+                Clear
+              </button>
+            )}
+          </form>
+        )}
+
+        {searchResults ? (
+          searchResults.length === 0 ? (
+            <p className="py-12 text-center text-gray-600">No messages match your search.</p>
+          ) : (
+            <ul className="space-y-3">
+              {searchResults.map(result => (
+                <li key={result.messageId}>
+                  <button
+                    onClick={() => router.push(`/chat/${result.conversationId}?message=${result.messageId}`)}
+                    className="w-full rounded-lg border border-gray-200 bg-white p-4 text-left shadow-sm transition-shadow hover:shadow-md"
+                  >
+                    <div className="mb-1 flex items-center justify-between gap-4 text-xs text-gray-500">
+                      <span className="font-semibold text-gray-900">{result.conversationTitle}</span>
+                      <span>
+                        {result.role === 'user' ? 'You' : result.role === 'assistant' ? 'Tutor' : 'System'}
+                        {' · '}{new Date(result.createdAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-700">{renderSnippet(result.snippet)}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )
+        ) : conversations.length === 0 && !subject ? (
           <div className="text-center py-12">
             <div className="mb-4 inline-flex h-16 w-16 items-center justify-center rounded-full bg-gray-100">
               <svg className="h-8 w-8 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -201,37 +391,81 @@ export default function ConversationsPage() {
             </button>
           </div>
         ) : (
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {conversations.map((conversation) => (
-              <div
-                key={conversation.id}
-                className="group relative rounded-lg border border-gray-200 bg-white p-6 shadow-sm transition-shadow hover:shadow-md"
-              >
-                <button
-                  onClick={() => router.push(`/chat/${conversation.id}`)}
-                  className="w-full text-left"
-                >
-                  <h3 className="mb-2 font-semibold text-gray-900 group-hover:text-indigo-600">
-                    {conversation.title}
-                  </h3>
-                  <p className="mb-4 line-clamp-2 text-sm text-gray-600">
-                    {conversation.messages[0]?.content || 'No messages yet'}
-                  </p>
-                  <div className="flex items-center justify-between text-xs text-gray-500">
-                    <span>{conversation.messages.length} messages</span>
-                    <span>{new Date(conversation.updatedAt).toLocaleDateString()}</span>
-                  </div>
-                </button>
-                <button
-                  onClick={() => deleteConversation(conversation.id)}
-                  className="absolute right-2 top-2 rounded p-1 text-gray-400 opacity-0 transition-opacity hover:bg-gray-100 hover:text-red-600 group-hover:opacity-100"
-                >
-                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                  </svg>
-                </button>
+          <div>
+            {subjects.length > 0 && (
+              <div className="mb-6 flex flex-wrap gap-2">
+                {['', ...subjects].map(s => (
+                  <button
+                    key={s}
+                    onClick={() => setSubject(s)}
+                    className={`rounded-full px-3 py-1 text-sm font-medium transition-colors ${
+                      subject === s
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-white text-gray-700 border border-gray-200 hover:border-indigo-300'
+                    }`}
+                  >
+                    {s || 'All subjects'}
+                  </button>
+                ))}
               </div>
-            ))}
+            )}
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {conversations.map((conversation) => (
+                <div
+                  key={conversation.id}
+                  className="group relative rounded-lg border border-gray-200 bg-white p-6 shadow-sm transition-shadow hover:shadow-md"
+                >
+                  <button
+                    onClick={() => router.push(`/chat/${conversation.id}`)}
+                    className="w-full text-left"
+                  >
+                    <h3 className="mb-2 pr-14 font-semibold text-gray-900 group-hover:text-indigo-600">
+                      {conversation.title}
+                    </h3>
+                    {(conversation.subject || conversation.topics.length > 0) && (
+                      <div className="mb-2 flex flex-wrap gap-1">
+                        {conversation.subject && (
+                          <span className="rounded bg-indigo-100 px-2 py-0.5 text-xs font-medium text-indigo-700">
+                            {conversation.subject}
+                          </span>
+                        )}
+                        {conversation.topics.map(topic => (
+                          <span key={topic} className="rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+                            {topic}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <p className="mb-4 line-clamp-2 text-sm text-gray-600">
+                      {conversation.messages[0]?.content || 'No messages yet'}
+                    </p>
+                    <div className="flex items-center justify-between text-xs text-gray-500">
+                      <span>{conversation.messages.length} messages</span>
+                      <span>{new Date(conversation.updatedAt).toLocaleDateString()}</span>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => renameConversation(conversation)}
+                    className="absolute right-10 top-2 rounded p-1 text-gray-400 opacity-0 transition-opacity hover:bg-gray-100 hover:text-indigo-600 group-hover:opacity-100"
+                    title="Rename"
+                  >
+                    <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => deleteConversation(conversation.id)}
+                    className="absolute right-2 top-2 rounded p-1 text-gray-400 opacity-0 transition-opacity hover:bg-gray-100 hover:text-red-600 group-hover:opacity-100"
+                  >
+                    <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+            </div>
+            {nextCursor && !isLoadingMore && <div key={nextCursor} ref={loadMoreRef} />}
+            {isLoadingMore && <p className="py-6 text-center text-sm text-gray-500">Loading more conversations...</p>}
           </div>
         )}
       </main>
@@ -3,12 +3,19 @@
 import { useEffect, useState } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import Link from 'next/link'
+import { cache } from '@/lib/cache'
+import { reviewRatings, scheduleReview, formatInterval, type ReviewRating } from '@/lib/srs'
 
 type Flashcard = {
   id: string
   front: string
   back: string
   difficulty: string | null
+  ease: number
+  interval: number
+  repetitions: number
+  lapses: number
+  dueAt: string
 }
 
 type FlashcardSet = {
@@ -27,6 +34,7 @@ export default function FlashcardSetPage() {
   const [currentIndex, setCurrentIndex] = useState(0)
   const [isFlipped, setIsFlipped] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
+  const [isReviewing, setIsReviewing] = useState(false)
 
   useEffect(() => {
     loadFlashcardSet()
@@ -34,25 +42,13 @@ export default function FlashcardSetPage() {
 
   const loadFlashcardSet = async () => {
     try {
-      // Check auth
-      const authResponse = await fetch('/api/auth/me')
-      if (!authResponse.ok) {
-        router.push('/login')
-        return
-      }
-
-      const { user } = await authResponse.json()
-
-      // Load flashcard sets and find the one we want
-      const response = await fetch(`/api/flashcards?userId=${user.id}`)
-      const data = await response.json()
-      const set = data.flashcardSets?.find((s: FlashcardSet) => s.id === setId)
-
-      if (!set) {
+      const response = await fetch(`/api/flashcards/${setId}`)
+      if (!response.ok) {
         router.push('/flashcards')
         return
       }
 
+      const { flashcardSet: set } = await response.json()
       setFlashcardSet(set)
     } catch (error) {
       console.error('Error loading flashcard set:', error)
@@ -80,6 +76,42 @@ export default function FlashcardSetPage() {
     }
   }
 
+  const handleReview = async (rating: ReviewRating) => {
+    if (!flashcardSet || isReviewing) return
+
+    setIsReviewing(true)
+    try {
+      const card = flashcardSet.flashcards[currentIndex]
+      const response = await fetch(`/api/flashcards/cards/${card.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to save review')
+      }
+
+      const { flashcard } = await response.json()
+      setFlashcardSet({
+        ...flashcardSet,
+        flashcards: flashcardSet.flashcards.map(c => c.id === flashcard.id ? flashcard : c)
+      })
+
+      // Due counts on the flashcards list are now stale
+      cache.invalidatePattern('flashcards:')
+
+      // Move on to the next card once this one is graded
+      handleNext()
+      setIsFlipped(false)
+    } catch (error) {
+      console.error('Error reviewing flashcard:', error)
+      alert('Failed to save review. Please try again.')
+    } finally {
+      setIsReviewing(false)
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -215,6 +247,30 @@ export default function FlashcardSetPage() {
             </button>
           </div>
 
+          {/* Spaced-repetition grading, available once the answer is shown */}
+          {isFlipped && (
+            <div className="mt-6 grid grid-cols-4 gap-3">
+              {reviewRatings.map(rating => (
+                <button
+                  key={rating}
+                  onClick={() => handleReview(rating)}
+                  disabled={isReviewing}
+                  className={`rounded-lg px-4 py-3 text-sm font-medium capitalize disabled:opacity-50 ${
+                    rating === 'again' ? 'bg-red-100 text-red-700 hover:bg-red-200' :
+                    rating === 'hard' ? 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200' :
+                    rating === 'good' ? 'bg-green-100 text-green-700 hover:bg-green-200' :
+                    'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                  }`}
+                >
+                  {rating}
+                  <span className="block text-xs font-normal opacity-75">
+                    {formatInterval(scheduleReview(currentCard, rating).interval)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Progress bar */}
           <div className="mt-8 h-2 rounded-full bg-gray-200">
             <div
@@ -1,65 +1,68 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { cache } from '@/lib/cache'
-
-type Flashcard = {
-  id: string
-  front: string
-  back: string
-  difficulty: string | null
-}
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll'
 
 type FlashcardSet = {
   id: string
   topic: string
   createdAt: string
-  flashcards: Flashcard[]
+  cardCount: number
+  dueCount: number
+}
+
+interface FlashcardSetPage {
+  flashcardSets: FlashcardSet[]
+  nextCursor: string | null
 }
 
 export default function FlashcardsPage() {
-  const router = useRouter()
   const [flashcardSets, setFlashcardSets] = useState<FlashcardSet[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const [userId, setUserId] = useState<string | null>(null)
+  const userId = useCurrentUser()?.id
+  const [dueCount, setDueCount] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
 
   useEffect(() => {
-    checkAuthAndLoad()
-  }, [])
+    if (userId) loadFlashcards(userId)
+  }, [userId])
 
-  const checkAuthAndLoad = async () => {
+  const loadFlashcards = async (userId: string) => {
     try {
-      // Check auth
-      const authResponse = await fetch('/api/auth/me')
-      if (!authResponse.ok) {
-        router.push('/login')
-        return
-      }
-
-      const { user } = await authResponse.json()
-      setUserId(user.id)
+      // Due count is cheap and changes with time, so it is never cached
+      fetch(`/api/flashcards/due?limit=1&tzOffset=${new Date().getTimezoneOffset()}`)
+        .then(r => r.json())
+        .then(data => setDueCount(data.total || 0))
+        .catch(err => console.error('Error loading due count:', err))
 
-      // Check cache first
-      const cacheKey = `flashcards:${user.id}`
-      const cached = cache.get<FlashcardSet[]>(cacheKey)
+      // Check cache first (only the first page is cached)
+      const cacheKey = `flashcards:${userId}`
+      const cached = cache.get<FlashcardSetPage>(cacheKey)
 
       if (cached) {
-        setFlashcardSets(cached)
+        setFlashcardSets(cached.flashcardSets)
+        setNextCursor(cached.nextCursor)
         setIsLoading(false)
         return
       }
 
-      // Load flashcard sets
-      const response = await fetch(`/api/flashcards?userId=${user.id}`)
+      // Load the first page of flashcard sets
+      const response = await fetch(`/api/flashcards?tzOffset=${new Date().getTimezoneOffset()}`)
       const data = await response.json()
-      const flashcardSetsData = data.flashcardSets || []
+      const firstPage: FlashcardSetPage = {
+        flashcardSets: data.flashcardSets || [],
+        nextCursor: data.nextCursor ?? null
+      }
 
       // Cache the result
-      cache.set(cacheKey, flashcardSetsData)
+      cache.set(cacheKey, firstPage)
 
-      setFlashcardSets(flashcardSetsData)
+      setFlashcardSets(firstPage.flashcardSets)
+      setNextCursor(firstPage.nextCursor)
     } catch (error) {
       console.error('Error loading flashcards:', error)
     } finally {
@@ -67,6 +70,25 @@ export default function FlashcardsPage() {
     }
   }
 
+  const loadMore = async () => {
+    if (!nextCursor || isLoadingMore) return
+
+    setIsLoadingMore(true)
+    try {
+      const response = await fetch(`/api/flashcards?cursor=${nextCursor}&tzOffset=${new Date().getTimezoneOffset()}`)
+      const data = await response.json()
+
+      setFlashcardSets(prev => [...prev, ...(data.flashcardSets || [])])
+      setNextCursor(data.nextCursor ?? null)
+    } catch (error) {
+      console.error('Error loading more flashcards:', error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  const loadMoreRef = useInfiniteScroll(loadMore)
+
   const deleteFlashcardSet = async (setId: string, e: React.MouseEvent) => {
     e.preventDefault() // Prevent navigation to flashcard set page
 
@@ -153,6 +175,20 @@ export default function FlashcardsPage() {
             </Link>
           </div>
         ) : (
+          <>
+          {dueCount > 0 && (
+            <div className="mb-6 flex items-center justify-between rounded-lg border border-indigo-200 bg-indigo-50 px-6 py-4">
+              <p className="font-medium text-indigo-900">
+                {dueCount} {dueCount === 1 ? 'card is' : 'cards are'} due for review today
+              </p>
+              <Link
+                href="/flashcards/review"
+                className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+              >
+                Review now
+              </Link>
+            </div>
+          )}
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
             {flashcardSets.map((set) => (
               <div key={set.id} className="group relative">
@@ -163,12 +199,15 @@ export default function FlashcardsPage() {
                   <div className="mb-3 flex items-start justify-between">
                     <h3 className="text-lg font-semibold text-gray-900">{set.topic}</h3>
                     <div className="rounded-full bg-indigo-100 px-3 py-1 text-sm font-medium text-indigo-700">
-                      {set.flashcards.length} cards
+                      {set.cardCount} cards
                     </div>
                   </div>
                   <p className="text-sm text-gray-600">
                     Created {new Date(set.createdAt).toLocaleDateString()}
                   </p>
+                  <p className="mt-1 text-sm text-gray-600">
+                    {set.dueCount} due today
+                  </p>
                   <div className="mt-4 flex items-center gap-2 text-sm text-indigo-600 font-medium">
                     <span>Practice</span>
                     <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -188,6 +227,9 @@ export default function FlashcardsPage() {
               </div>
             ))}
           </div>
+          {nextCursor && !isLoadingMore && <div key={nextCursor} ref={loadMoreRef} />}
+          {isLoadingMore && <p className="py-6 text-center text-sm text-gray-500">Loading more flashcards...</p>}
+          </>
         )}
       </main>
     </div>
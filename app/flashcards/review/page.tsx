@@ -0,0 +1,191 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { cache } from '@/lib/cache'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import { reviewRatings, scheduleReview, formatInterval, endOfToday, type ReviewRating } from '@/lib/srs'
+
+type DueFlashcard = {
+  id: string
+  front: string
+  back: string
+  difficulty: string | null
+  ease: number
+  interval: number
+  repetitions: number
+  lapses: number
+  dueAt: string
+  set: {
+    id: string
+    topic: string
+  }
+}
+
+export default function FlashcardReviewPage() {
+  const [queue, setQueue] = useState<DueFlashcard[]>([])
+  const [reviewedCount, setReviewedCount] = useState(0)
+  const [isFlipped, setIsFlipped] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isReviewing, setIsReviewing] = useState(false)
+  const userId = useCurrentUser()?.id
+
+  useEffect(() => {
+    loadDueCards()
+  }, [])
+
+  const loadDueCards = async () => {
+    try {
+      const response = await fetch(`/api/flashcards/due?tzOffset=${new Date().getTimezoneOffset()}`)
+      const data = await response.json()
+      setQueue(data.flashcards || [])
+    } catch (error) {
+      console.error('Error loading due flashcards:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleReview = async (rating: ReviewRating) => {
+    const card = queue[0]
+    if (!card || isReviewing) return
+
+    setIsReviewing(true)
+    try {
+      const response = await fetch(`/api/flashcards/cards/${card.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rating })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to save review')
+      }
+
+      const { flashcard } = await response.json()
+
+      // Cards that come due again today go to the back of the queue
+      const rest = queue.slice(1)
+      setQueue(new Date(flashcard.dueAt) <= endOfToday()
+        ? [...rest, { ...card, ...flashcard }]
+        : rest)
+      setReviewedCount(count => count + 1)
+      setIsFlipped(false)
+
+      if (userId) {
+        cache.invalidate(`flashcards:${userId}`)
+      }
+    } catch (error) {
+      console.error('Error reviewing flashcard:', error)
+      alert('Failed to save review. Please try again.')
+    } finally {
+      setIsReviewing(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-indigo-600 border-r-transparent"></div>
+          <p className="mt-4 text-gray-600">Loading due cards...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const currentCard = queue[0]
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <header className="border-b border-gray-200 bg-white shadow-sm">
+        <div className="container mx-auto flex items-center justify-between px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/flashcards"
+              className="text-gray-600 hover:text-gray-900"
+            >
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900">Due Today</h1>
+          </div>
+          <div className="text-sm text-gray-600">
+            {reviewedCount} reviewed · {queue.length} left
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-12">
+        {!currentCard ? (
+          <div className="text-center py-16">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">All caught up!</h2>
+            <p className="text-gray-600 mb-6">
+              {reviewedCount > 0
+                ? `You reviewed ${reviewedCount} cards. Come back tomorrow for more.`
+                : 'No cards are due today.'}
+            </p>
+            <Link
+              href="/flashcards"
+              className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-6 py-3 text-white font-medium hover:bg-indigo-700"
+            >
+              Back to Flashcards
+            </Link>
+          </div>
+        ) : (
+          <div className="mx-auto max-w-2xl">
+            <p className="mb-4 text-center text-sm font-medium text-indigo-600">{currentCard.set.topic}</p>
+
+            <div
+              onClick={() => setIsFlipped(!isFlipped)}
+              className="flex h-96 cursor-pointer items-center justify-center rounded-xl border-2 border-indigo-200 bg-white p-8 shadow-lg"
+            >
+              <div className="text-center">
+                <p className="text-xs font-medium text-indigo-600 mb-4 uppercase">
+                  {isFlipped ? 'Answer' : 'Question'}
+                </p>
+                <p className={isFlipped ? 'text-xl text-gray-900 whitespace-pre-wrap' : 'text-2xl font-semibold text-gray-900'}>
+                  {isFlipped ? currentCard.back : currentCard.front}
+                </p>
+                {!isFlipped && <p className="mt-8 text-sm text-gray-500">Click to reveal answer</p>}
+              </div>
+            </div>
+
+            {isFlipped ? (
+              <div className="mt-6 grid grid-cols-4 gap-3">
+                {reviewRatings.map(rating => (
+                  <button
+                    key={rating}
+                    onClick={() => handleReview(rating)}
+                    disabled={isReviewing}
+                    className={`rounded-lg px-4 py-3 text-sm font-medium capitalize disabled:opacity-50 ${
+                      rating === 'again' ? 'bg-red-100 text-red-700 hover:bg-red-200' :
+                      rating === 'hard' ? 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200' :
+                      rating === 'good' ? 'bg-green-100 text-green-700 hover:bg-green-200' :
+                      'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                    }`}
+                  >
+                    {rating}
+                    <span className="block text-xs font-normal opacity-75">
+                      {formatInterval(scheduleReview(currentCard, rating).interval)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="mt-6 text-center">
+                <button
+                  onClick={() => setIsFlipped(true)}
+                  className="rounded-lg bg-indigo-600 px-6 py-3 font-medium text-white hover:bg-indigo-700"
+                >
+                  Show Answer
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
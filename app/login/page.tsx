@@ -1,15 +1,44 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 
+// Reasons the single sign-on callback sends back in ?error=
+const ssoErrors: Record<string, string> = {
+  oidc_failed: 'Single sign-on failed. Please try again.',
+  oidc_denied: 'Sign-in was cancelled at your identity provider.',
+  oidc_unverified: 'Your identity provider did not confirm your email address, so we could not sign you in.'
+}
+
+async function loadSSOProvider(): Promise<string | null> {
+  const response = await fetch('/api/auth/oidc')
+  const data = await response.json()
+  return data.enabled ? data.name : null
+}
+
 export default function LoginPage() {
   const router = useRouter()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [ssoProvider, setSSOProvider] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadSSOProvider()
+      .then(name => {
+        setSSOProvider(name)
+        const reason = new URLSearchParams(window.location.search).get('error')
+        if (reason && ssoErrors[reason]) setError(ssoErrors[reason])
+      })
+      .catch(error => console.error('Error loading sign-in options:', error))
+  }, [])
+
+  const signInWithSSO = () => {
+    const next = new URLSearchParams(window.location.search).get('next')
+    window.location.href = `/api/auth/oidc/login${next ? `?next=${encodeURIComponent(next)}` : ''}`
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -31,7 +60,11 @@ export default function LoginPage() {
         return
       }
 
-      router.push('/')
+      // Return to the page that sent them here; only local paths, never //host.
+      // An account scheduled for deletion goes to the account page to cancel it.
+      const next = new URLSearchParams(window.location.search).get('next')
+      const destination = next && /^\/(?![\/\\])/.test(next) ? next : '/'
+      router.push(data.user.deleteAfter ? '/account' : destination)
       router.refresh()
     } catch (err) {
       setError('An error occurred. Please try again.')
@@ -71,9 +104,14 @@ export default function LoginPage() {
             </div>
 
             <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
+              <div className="flex items-center justify-between">
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <Link href="/forgot-password" className="text-sm font-medium text-indigo-600 hover:text-indigo-700">
+                  Forgot password?
+                </Link>
+              </div>
               <input
                 id="password"
                 type="password"
@@ -94,6 +132,23 @@ export default function LoginPage() {
             </button>
           </form>
 
+          {ssoProvider && (
+            <>
+              <div className="my-6 flex items-center gap-3 text-xs uppercase text-gray-400">
+                <div className="h-px flex-1 bg-gray-200"></div>
+                or
+                <div className="h-px flex-1 bg-gray-200"></div>
+              </div>
+              <button
+                type="button"
+                onClick={signInWithSSO}
+                className="w-full rounded-lg border border-gray-300 bg-white px-4 py-3 font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Sign in with {ssoProvider}
+              </button>
+            </>
+          )}
+
           <div className="mt-6 text-center text-sm">
             <span className="text-gray-600">Don't have an account? </span>
             <Link href="/register" className="font-medium text-indigo-600 hover:text-indigo-700">
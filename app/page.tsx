@@ -3,6 +3,8 @@
 import { useRouter } from 'next/navigation'
 import { useState, useEffect, useRef } from 'react'
 import Link from 'next/link'
+import { cache } from '@/lib/cache'
+import type { AssignmentProgress } from '@/lib/classrooms'
 
 type User = {
   id: string
@@ -10,11 +12,38 @@ type User = {
   name: string | null
 }
 
+type Assignment = {
+  id: string
+  kind: 'quiz' | 'flashcards'
+  title: string
+  quizId: string | null
+  dueAt: string
+  classroom: { id: string; name: string }
+  progress: AssignmentProgress
+}
+
+async function loadAssignments(): Promise<Assignment[]> {
+  const response = await fetch('/api/assignments')
+  if (!response.ok) return []
+  const { assignments } = await response.json()
+  return assignments
+}
+
+// "Due today", "Due in 3 days", "2 days overdue"
+function formatDue(dueAt: string) {
+  const days = Math.round((new Date(dueAt).setHours(0, 0, 0, 0) - new Date().setHours(0, 0, 0, 0)) / (24 * 60 * 60 * 1000))
+  if (days === 0) return 'Due today'
+  if (days === 1) return 'Due tomorrow'
+  if (days > 1) return `Due in ${days} days`
+  return `${-days} day${days === -1 ? '' : 's'} overdue`
+}
+
 export default function Home() {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(false)
   const [user, setUser] = useState<User | null>(null)
   const [authChecked, setAuthChecked] = useState(false)
+  const [assignments, setAssignments] = useState<Assignment[]>([])
   const authCheckStarted = useRef(false)
 
   // Only check auth when component mounts, but don't block rendering
@@ -25,6 +54,15 @@ export default function Home() {
     }
   }, [])
 
+  // Work assigned in the classes the user has joined
+  useEffect(() => {
+    if (!user) return
+
+    loadAssignments()
+      .then(setAssignments)
+      .catch(error => console.error('Error loading assignments:', error))
+  }, [user])
+
   const checkAuth = async () => {
     try {
       const response = await fetch('/api/auth/me', {
@@ -43,10 +81,34 @@ export default function Home() {
     }
   }
 
+  const openAssignment = async (assignment: Assignment) => {
+    if (assignment.kind === 'quiz') {
+      router.push(`/quizzes/${assignment.quizId}`)
+      return
+    }
+
+    try {
+      // Flashcards are copied to the student the first time they're opened
+      const response = await fetch(`/api/assignments/${assignment.id}/start`, { method: 'POST' })
+
+      if (!response.ok) {
+        throw new Error('Failed to start assignment')
+      }
+
+      const { flashcardSetId } = await response.json()
+      router.push(`/flashcards/${flashcardSetId}`)
+    } catch (error) {
+      console.error('Error starting assignment:', error)
+      alert('Failed to open assignment. Please try again.')
+    }
+  }
+
   const handleLogout = async () => {
     try {
       await fetch('/api/auth/logout', { method: 'POST' })
+      cache.clear() // Cached data belongs to the signed-out user
       setUser(null)
+      setAssignments([])
       router.refresh()
     } catch (error) {
       console.error('Logout error:', error)
@@ -126,7 +188,18 @@ export default function Home() {
                       </svg>
                       Quizzes
                     </button>
-                    <span className="text-sm text-gray-600">{user.name || user.email}</span>
+                    <button
+                      onClick={() => router.push('/classrooms')}
+                      className="flex items-center gap-2 text-sm font-medium text-gray-700 hover:text-indigo-600"
+                    >
+                      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+                      </svg>
+                      Classes
+                    </button>
+                    <Link href="/account" className="text-sm text-gray-600 hover:text-indigo-600">
+                      {user.name || user.email}
+                    </Link>
                     <button
                       onClick={handleLogout}
                       className="text-sm font-medium text-gray-700 hover:text-indigo-600"
@@ -151,6 +224,46 @@ export default function Home() {
       </header>
 
       <main className="container mx-auto flex flex-1 flex-col items-center justify-center px-6 py-12">
+        {assignments.length > 0 && (
+          <section className="mb-12 w-full max-w-2xl">
+            <h2 className="mb-4 text-lg font-semibold text-gray-900">Your assignments</h2>
+            <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white shadow-sm">
+              {assignments.map(assignment => {
+                const done = assignment.progress.status === 'completed'
+                const overdue = !done && new Date(assignment.dueAt) < new Date()
+
+                return (
+                  <li key={assignment.id}>
+                    <button
+                      onClick={() => openAssignment(assignment)}
+                      className="flex w-full items-center justify-between px-6 py-4 text-left hover:bg-gray-50"
+                    >
+                      <div>
+                        <p className="font-medium text-gray-900">{assignment.title}</p>
+                        <p className="text-sm text-gray-600">
+                          {assignment.kind === 'quiz' ? 'Quiz' : 'Flashcards'} · {assignment.classroom.name}
+                        </p>
+                      </div>
+                      <div className="text-right text-sm">
+                        {assignment.progress.kind === 'quiz' && assignment.progress.latestScore !== null ? (
+                          <p className="font-medium text-green-700">Scored {Math.round(assignment.progress.latestScore)}%</p>
+                        ) : assignment.progress.kind === 'flashcards' && assignment.progress.status !== 'not_started' ? (
+                          <p className={`font-medium ${done ? 'text-green-700' : 'text-gray-900'}`}>
+                            {assignment.progress.cardsReviewed}/{assignment.progress.cardsTotal} cards reviewed
+                          </p>
+                        ) : null}
+                        <p className={overdue ? 'font-medium text-red-600' : 'text-gray-600'}>
+                          {formatDue(assignment.dueAt)}
+                        </p>
+                      </div>
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          </section>
+        )}
+
         <div className="max-w-2xl text-center">
           <div className="mb-8 inline-flex h-20 w-20 items-center justify-center rounded-full bg-indigo-100">
             <svg
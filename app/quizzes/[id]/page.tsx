@@ -1,22 +1,26 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import Link from 'next/link'
-
-type Question = {
-  id: string
-  question: string
-  options: string[]
-  correctAnswer: number
-  explanation: string
-}
-
+import {
+  CLOZE_BLANK,
+  clozeBlankCount,
+  formatAnswer,
+  formatCorrectAnswer,
+  isAnswered,
+  type AttemptAnswer,
+  type Question,
+  type QuizAnswer,
+  type QuizQuestion
+} from '@/lib/quiz'
+
+// Served without answers; they come back with the graded attempt
 type Quiz = {
   id: string
   subject: string
   topic: string
-  questions: Question[]
+  questions: QuizQuestion[]
   createdAt: string
 }
 
@@ -27,30 +31,30 @@ export default function QuizTakePage() {
 
   const [quiz, setQuiz] = useState<Quiz | null>(null)
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
-  const [selectedAnswers, setSelectedAnswers] = useState<Record<number, number>>({})
+  const [selectedAnswers, setSelectedAnswers] = useState<Record<number, QuizAnswer>>({})
+  const [grades, setGrades] = useState<AttemptAnswer[]>([])
+  const [answerKey, setAnswerKey] = useState<Question[]>([])
+  const [score, setScore] = useState(0)
+  const [timeTakenSeconds, setTimeTakenSeconds] = useState<number | null>(null)
   const [showResults, setShowResults] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
+  // Sent with the attempt: the server's record of when it started, and time spent per question
+  const attemptToken = useRef('')
+  const questionShownAt = useRef(0)
+  const questionTimes = useRef<Record<number, number>>({})
+
   useEffect(() => {
     loadQuiz()
   }, [quizId])
 
   const loadQuiz = async () => {
     try {
-      // Check auth
-      const authResponse = await fetch('/api/auth/me')
-      if (!authResponse.ok) {
-        router.push('/login')
-        return
-      }
-
-      const { user } = await authResponse.json()
-
-      // Load quizzes and find the one we want
-      const response = await fetch(`/api/quizzes?userId=${user.id}`)
+      // Our own quiz, or one assigned to a class we're in
+      const response = await fetch(`/api/quizzes/${quizId}`)
       const data = await response.json()
-      const foundQuiz = data.quizzes?.find((q: Quiz) => q.id === quizId)
+      const foundQuiz: Quiz | undefined = data.quiz
 
       if (!foundQuiz) {
         router.push('/quizzes')
@@ -58,6 +62,8 @@ export default function QuizTakePage() {
       }
 
       setQuiz(foundQuiz)
+      attemptToken.current = data.attemptToken
+      startTimer()
     } catch (error) {
       console.error('Error loading quiz:', error)
       router.push('/quizzes')
@@ -66,21 +72,35 @@ export default function QuizTakePage() {
     }
   }
 
-  const handleAnswerSelect = (answerIndex: number) => {
+  const startTimer = () => {
+    questionShownAt.current = Date.now()
+    questionTimes.current = {}
+  }
+
+  const recordQuestionTime = () => {
+    const now = Date.now()
+    questionTimes.current[currentQuestionIndex] =
+      (questionTimes.current[currentQuestionIndex] ?? 0) + now - questionShownAt.current
+    questionShownAt.current = now
+  }
+
+  const handleAnswerChange = (answer: QuizAnswer) => {
     setSelectedAnswers(prev => ({
       ...prev,
-      [currentQuestionIndex]: answerIndex
+      [currentQuestionIndex]: answer
     }))
   }
 
   const handleNext = () => {
     if (quiz && currentQuestionIndex < quiz.questions.length - 1) {
+      recordQuestionTime()
       setCurrentQuestionIndex(currentQuestionIndex + 1)
     }
   }
 
   const handlePrevious = () => {
     if (currentQuestionIndex > 0) {
+      recordQuestionTime()
       setCurrentQuestionIndex(currentQuestionIndex - 1)
     }
   }
@@ -90,29 +110,42 @@ export default function QuizTakePage() {
 
     setIsSubmitting(true)
     try {
-      // Calculate score
-      let correct = 0
-      quiz.questions.forEach((q, index) => {
-        if (selectedAnswers[index] === q.correctAnswer) {
-          correct++
-        }
-      })
+      recordQuestionTime()
 
-      const score = (correct / quiz.questions.length) * 100
-
-      // Save attempt to database
-      await fetch(`/api/quizzes/${quizId}/attempts`, {
+      // The server grades the answers (short answers against their rubric) and saves the attempt
+      const response = await fetch(`/api/quizzes/${quizId}/attempts`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          score,
-          answers: selectedAnswers
+          attemptToken: attemptToken.current,
+          answers: quiz.questions.flatMap((q, index) => isAnswered(q, selectedAnswers[index])
+            ? [{
+                questionId: q.id,
+                answer: selectedAnswers[index],
+                timeTakenSeconds: Math.round((questionTimes.current[index] ?? 0) / 1000)
+              }]
+            : [])
         })
       })
 
+      const data = await response.json()
+
+      // e.g. the attempt expired
+      if (!response.ok) {
+        alert(data.error || 'Failed to submit quiz. Please try again.')
+        return
+      }
+
+      const { attempt, questions } = data
+
+      setAnswerKey(questions)
+      setGrades(attempt.answers)
+      setScore(attempt.score)
+      setTimeTakenSeconds(attempt.timeTakenSeconds)
       setShowResults(true)
     } catch (error) {
       console.error('Error submitting quiz:', error)
+      alert('Failed to submit quiz. Please try again.')
     } finally {
       setIsSubmitting(false)
     }
@@ -144,11 +177,10 @@ export default function QuizTakePage() {
 
   const currentQuestion = quiz.questions[currentQuestionIndex]
   const progress = ((currentQuestionIndex + 1) / quiz.questions.length) * 100
-  const allAnswered = Object.keys(selectedAnswers).length === quiz.questions.length
+  const allAnswered = quiz.questions.every((q, i) => isAnswered(q, selectedAnswers[i]))
 
   if (showResults) {
-    const correctCount = quiz.questions.filter((q, i) => selectedAnswers[i] === q.correctAnswer).length
-    const score = (correctCount / quiz.questions.length) * 100
+    const correctCount = grades.filter(grade => grade.correct).length
 
     return (
       <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
@@ -179,12 +211,13 @@ export default function QuizTakePage() {
             </h2>
             <p className="text-lg text-gray-600 mb-8">
               You got {correctCount} out of {quiz.questions.length} questions correct
+              {timeTakenSeconds !== null && ` in ${Math.floor(timeTakenSeconds / 60)}m ${timeTakenSeconds % 60}s`}
             </p>
 
             <div className="space-y-4 mb-8">
-              {quiz.questions.map((q, index) => {
-                const userAnswer = selectedAnswers[index]
-                const isCorrect = userAnswer === q.correctAnswer
+              {answerKey.map((q, index) => {
+                const grade = grades[index]
+                const isCorrect = grade?.correct ?? false
 
                 return (
                   <div key={q.id} className="bg-white rounded-lg border border-gray-200 p-6 text-left">
@@ -206,14 +239,20 @@ export default function QuizTakePage() {
                         <p className="font-medium text-gray-900 mb-2">{q.question}</p>
                         <p className="text-sm text-gray-600">
                           Your answer: <span className={isCorrect ? 'text-green-600' : 'text-red-600'}>
-                            {q.options[userAnswer]}
+                            {formatAnswer(q, selectedAnswers[index])}
                           </span>
+                          {grade && grade.credit > 0 && grade.credit < 1 && (
+                            <span className="ml-2 text-xs text-yellow-600">({Math.round(grade.credit * 100)}% credit)</span>
+                          )}
                         </p>
                         {!isCorrect && (
                           <p className="text-sm text-gray-600 mt-1">
-                            Correct answer: <span className="text-green-600">{q.options[q.correctAnswer]}</span>
+                            {q.type === 'short_answer' ? 'Sample answer' : 'Correct answer'}: <span className="text-green-600">{formatCorrectAnswer(q)}</span>
                           </p>
                         )}
+                        {grade?.feedback && (
+                          <p className="text-sm text-gray-700 mt-2">{grade.feedback}</p>
+                        )}
                         {q.explanation && (
                           <p className="text-sm text-gray-500 mt-2 italic">{q.explanation}</p>
                         )}
@@ -234,7 +273,10 @@ export default function QuizTakePage() {
               <button
                 onClick={() => {
                   setSelectedAnswers({})
+                  setGrades([])
                   setCurrentQuestionIndex(0)
+                  // Reloading starts the new attempt on the server
+                  loadQuiz()
                   setShowResults(false)
                 }}
                 className="rounded-lg bg-indigo-600 px-6 py-3 font-medium text-white hover:bg-indigo-700"
@@ -281,36 +323,16 @@ export default function QuizTakePage() {
 
           {/* Question */}
           <div className="mb-8">
-            <h2 className="text-2xl font-bold text-gray-900 mb-6">{currentQuestion.question}</h2>
-
-            <div className="space-y-3">
-              {currentQuestion.options.map((option, index) => (
-                <button
-                  key={index}
-                  onClick={() => handleAnswerSelect(index)}
-                  className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
-                    selectedAnswers[currentQuestionIndex] === index
-                      ? 'border-purple-600 bg-purple-50'
-                      : 'border-gray-200 bg-white hover:border-purple-300'
-                  }`}
-                >
-                  <div className="flex items-center gap-3">
-                    <div className={`h-6 w-6 rounded-full border-2 flex items-center justify-center ${
-                      selectedAnswers[currentQuestionIndex] === index
-                        ? 'border-purple-600 bg-purple-600'
-                        : 'border-gray-300'
-                    }`}>
-                      {selectedAnswers[currentQuestionIndex] === index && (
-                        <svg className="h-4 w-4 text-white" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
-                      )}
-                    </div>
-                    <span className="text-gray-900">{option}</span>
-                  </div>
-                </button>
-              ))}
-            </div>
+            {currentQuestion.type !== 'cloze' && (
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">{currentQuestion.question}</h2>
+            )}
+
+            <QuestionInput
+              key={currentQuestionIndex}
+              question={currentQuestion}
+              answer={selectedAnswers[currentQuestionIndex]}
+              onChange={handleAnswerChange}
+            />
           </div>
 
           {/* Navigation */}
@@ -337,7 +359,7 @@ export default function QuizTakePage() {
             ) : (
               <button
                 onClick={handleNext}
-                disabled={selectedAnswers[currentQuestionIndex] === undefined}
+                disabled={!isAnswered(currentQuestion, selectedAnswers[currentQuestionIndex])}
                 className="flex items-center gap-2 rounded-lg bg-purple-600 px-6 py-3 font-medium text-white hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Next
@@ -354,7 +376,7 @@ export default function QuizTakePage() {
               <div
                 key={index}
                 className={`h-2 w-2 rounded-full ${
-                  selectedAnswers[index] !== undefined ? 'bg-purple-600' : 'bg-gray-300'
+                  isAnswered(quiz.questions[index], selectedAnswers[index]) ? 'bg-purple-600' : 'bg-gray-300'
                 }`}
               />
             ))}
@@ -364,3 +386,130 @@ export default function QuizTakePage() {
     </div>
   )
 }
+
+const checkIcon = (
+  <svg className="h-4 w-4 text-white" fill="currentColor" viewBox="0 0 20 20">
+    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+  </svg>
+)
+
+// Answer input for the current question, one renderer per question type
+function QuestionInput({
+  question,
+  answer,
+  onChange
+}: {
+  question: QuizQuestion
+  answer: QuizAnswer | undefined
+  onChange: (answer: QuizAnswer) => void
+}) {
+  const optionButton = (label: string, selected: boolean, onClick: () => void, shape: 'circle' | 'square', key: string | number) => (
+    <button
+      key={key}
+      onClick={onClick}
+      className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
+        selected
+          ? 'border-purple-600 bg-purple-50'
+          : 'border-gray-200 bg-white hover:border-purple-300'
+      }`}
+    >
+      <div className="flex items-center gap-3">
+        <div className={`h-6 w-6 border-2 flex items-center justify-center ${
+          shape === 'circle' ? 'rounded-full' : 'rounded'
+        } ${
+          selected
+            ? 'border-purple-600 bg-purple-600'
+            : 'border-gray-300'
+        }`}>
+          {selected && checkIcon}
+        </div>
+        <span className="text-gray-900">{label}</span>
+      </div>
+    </button>
+  )
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return (
+        <div className="space-y-3">
+          {question.options.map((option, index) =>
+            optionButton(option, answer === index, () => onChange(index), 'circle', index)
+          )}
+        </div>
+      )
+
+    case 'true_false':
+      return (
+        <div className="space-y-3">
+          {[true, false].map(value =>
+            optionButton(value ? 'True' : 'False', answer === value, () => onChange(value), 'circle', String(value))
+          )}
+        </div>
+      )
+
+    case 'multi_select': {
+      const selected = Array.isArray(answer) ? answer as number[] : []
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">Select all that apply</p>
+          {question.options.map((option, index) =>
+            optionButton(option, selected.includes(index), () => onChange(
+              selected.includes(index)
+                ? selected.filter(i => i !== index)
+                : [...selected, index].sort((a, b) => a - b)
+            ), 'square', index)
+          )}
+        </div>
+      )
+    }
+
+    case 'numeric':
+      return (
+        <div className="flex items-center gap-3">
+          <input
+            type="number"
+            step="any"
+            value={typeof answer === 'number' && !isNaN(answer) ? answer : ''}
+            onChange={(e) => onChange(e.target.value === '' ? NaN : Number(e.target.value))}
+            placeholder="Your answer"
+            className="w-48 rounded-lg border-2 border-gray-200 px-4 py-3 text-gray-900 focus:border-purple-600 focus:outline-none"
+          />
+          {question.unit && <span className="text-gray-600">{question.unit}</span>}
+        </div>
+      )
+
+    case 'cloze': {
+      const parts = question.question.split(CLOZE_BLANK)
+      const blanks = Array.isArray(answer) ? answer as string[] : Array.from({ length: clozeBlankCount(question) }, () => '')
+      return (
+        <p className="text-2xl font-bold text-gray-900 leading-relaxed">
+          {parts.map((part, index) => (
+            <span key={index}>
+              {part}
+              {index < parts.length - 1 && (
+                <input
+                  type="text"
+                  value={blanks[index] ?? ''}
+                  onChange={(e) => onChange(blanks.map((b, i) => i === index ? e.target.value : b))}
+                  aria-label={`Blank ${index + 1}`}
+                  className="mx-1 w-40 border-b-2 border-purple-400 bg-transparent px-1 text-center text-purple-700 focus:border-purple-600 focus:outline-none"
+                />
+              )}
+            </span>
+          ))}
+        </p>
+      )
+    }
+
+    case 'short_answer':
+      return (
+        <textarea
+          value={typeof answer === 'string' ? answer : ''}
+          onChange={(e) => onChange(e.target.value)}
+          rows={5}
+          placeholder="Explain in a few sentences..."
+          className="w-full rounded-lg border-2 border-gray-200 p-4 text-gray-900 focus:border-purple-600 focus:outline-none"
+        />
+      )
+  }
+}
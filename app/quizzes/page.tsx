@@ -1,9 +1,10 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { cache } from '@/lib/cache'
+import { useCurrentUser } from '@/hooks/useCurrentUser'
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll'
 
 type QuizAttempt = {
   id: string
@@ -15,52 +16,53 @@ type Quiz = {
   id: string
   subject: string
   topic: string
-  questions: any
+  questionCount: number
   createdAt: string
   attempts: QuizAttempt[]
 }
 
+interface QuizPage {
+  quizzes: Quiz[]
+  nextCursor: string | null
+}
+
 export default function QuizzesPage() {
-  const router = useRouter()
   const [quizzes, setQuizzes] = useState<Quiz[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const [userId, setUserId] = useState<string | null>(null)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const userId = useCurrentUser()?.id
 
   useEffect(() => {
-    checkAuthAndLoad()
-  }, [])
+    if (userId) loadQuizzes(userId)
+  }, [userId])
 
-  const checkAuthAndLoad = async () => {
+  const loadQuizzes = async (userId: string) => {
     try {
-      // Check auth
-      const authResponse = await fetch('/api/auth/me')
-      if (!authResponse.ok) {
-        router.push('/login')
-        return
-      }
-
-      const { user } = await authResponse.json()
-      setUserId(user.id)
-
-      // Check cache first
-      const cacheKey = `quizzes:${user.id}`
-      const cached = cache.get<Quiz[]>(cacheKey)
+      // Check cache first (only the first page is cached)
+      const cacheKey = `quizzes:${userId}`
+      const cached = cache.get<QuizPage>(cacheKey)
 
       if (cached) {
-        setQuizzes(cached)
+        setQuizzes(cached.quizzes)
+        setNextCursor(cached.nextCursor)
         setIsLoading(false)
         return
       }
 
-      // Load quizzes
-      const response = await fetch(`/api/quizzes?userId=${user.id}`)
+      // Load the first page of quizzes
+      const response = await fetch('/api/quizzes')
       const data = await response.json()
-      const quizzesData = data.quizzes || []
+      const firstPage: QuizPage = {
+        quizzes: data.quizzes || [],
+        nextCursor: data.nextCursor ?? null
+      }
 
       // Cache the result
-      cache.set(cacheKey, quizzesData)
+      cache.set(cacheKey, firstPage)
 
-      setQuizzes(quizzesData)
+      setQuizzes(firstPage.quizzes)
+      setNextCursor(firstPage.nextCursor)
     } catch (error) {
       console.error('Error loading quizzes:', error)
     } finally {
@@ -68,6 +70,25 @@ export default function QuizzesPage() {
     }
   }
 
+  const loadMore = async () => {
+    if (!nextCursor || isLoadingMore) return
+
+    setIsLoadingMore(true)
+    try {
+      const response = await fetch(`/api/quizzes?cursor=${nextCursor}`)
+      const data = await response.json()
+
+      setQuizzes(prev => [...prev, ...(data.quizzes || [])])
+      setNextCursor(data.nextCursor ?? null)
+    } catch (error) {
+      console.error('Error loading more quizzes:', error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  const loadMoreRef = useInfiniteScroll(loadMore)
+
   const deleteQuiz = async (quizId: string, e: React.MouseEvent) => {
     e.preventDefault() // Prevent navigation to quiz page
 
@@ -157,7 +178,6 @@ export default function QuizzesPage() {
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
             {quizzes.map((quiz) => {
               const lastAttempt = quiz.attempts[0]
-              const questionCount = Array.isArray(quiz.questions) ? quiz.questions.length : 0
 
               return (
                 <div key={quiz.id} className="group relative">
@@ -181,7 +201,7 @@ export default function QuizzesPage() {
                       <p className="text-sm text-gray-600">{quiz.subject}</p>
                     </div>
                     <div className="flex items-center justify-between text-sm text-gray-500">
-                      <span>{questionCount} questions</span>
+                      <span>{quiz.questionCount} questions</span>
                       <span>{quiz.attempts.length} {quiz.attempts.length === 1 ? 'attempt' : 'attempts'}</span>
                     </div>
                     <div className="mt-4 flex items-center gap-2 text-sm text-purple-600 font-medium">
@@ -205,6 +225,8 @@ export default function QuizzesPage() {
             })}
           </div>
         )}
+        {nextCursor && !isLoadingMore && <div key={nextCursor} ref={loadMoreRef} />}
+        {isLoadingMore && <p className="py-6 text-center text-sm text-gray-500">Loading more quizzes...</p>}
       </main>
     </div>
   )
@@ -10,6 +10,7 @@ export default function RegisterPage() {
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
   const [name, setName] = useState('')
+  const [role, setRole] = useState<'student' | 'teacher'>('student')
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
 
@@ -34,7 +35,7 @@ export default function RegisterPage() {
       const response = await fetch('/api/auth/register', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, password, name })
+        body: JSON.stringify({ email, password, name, role })
       })
 
       const data = await response.json()
@@ -83,6 +84,32 @@ export default function RegisterPage() {
               />
             </div>
 
+            <div>
+              <span className="block text-sm font-medium text-gray-900">I am a</span>
+              <div className="mt-1 grid grid-cols-2 gap-2">
+                {(['student', 'teacher'] as const).map(option => (
+                  <label
+                    key={option}
+                    className={`cursor-pointer rounded-lg border px-4 py-2 text-center text-sm font-medium capitalize ${
+                      role === option
+                        ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="role"
+                      value={option}
+                      checked={role === option}
+                      onChange={() => setRole(option)}
+                      className="sr-only"
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+            </div>
+
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-900">
                 Email
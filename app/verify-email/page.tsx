@@ -0,0 +1,81 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+
+type Status = 'verifying' | 'verified' | 'failed'
+
+// Confirms the token from the emailed link; resolves to an error message on failure
+async function confirmEmail(): Promise<string | null> {
+  try {
+    const token = new URLSearchParams(window.location.search).get('token')
+    const response = await fetch('/api/auth/verify-email/confirm', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token })
+    })
+
+    if (response.ok) return null
+
+    const data = await response.json()
+    return data.error || 'Failed to verify email'
+  } catch {
+    return 'An error occurred. Please try again.'
+  }
+}
+
+export default function VerifyEmailPage() {
+  const [status, setStatus] = useState<Status>('verifying')
+  const [error, setError] = useState('')
+  const verifyStarted = useRef(false)
+
+  useEffect(() => {
+    // Avoid a second request from dev strict mode's double effect
+    if (verifyStarted.current) return
+    verifyStarted.current = true
+
+    confirmEmail().then(error => {
+      setError(error || '')
+      setStatus(error ? 'failed' : 'verified')
+    })
+  }, [])
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-indigo-50 via-white to-purple-50 px-4">
+      <div className="w-full max-w-md">
+        <div className="mb-8 text-center">
+          <h1 className="mb-2 text-3xl font-bold text-indigo-600">TutorFlow</h1>
+          <p className="text-gray-600">Email verification</p>
+        </div>
+
+        <div className="rounded-lg border border-gray-200 bg-white p-8 text-center shadow-sm">
+          {status === 'verifying' && (
+            <>
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-indigo-600 border-r-transparent"></div>
+              <p className="mt-4 text-gray-600">Verifying your email...</p>
+            </>
+          )}
+
+          {status === 'verified' && (
+            <p className="text-gray-700">Your email address is verified. Thanks!</p>
+          )}
+
+          {status === 'failed' && (
+            <>
+              <div className="rounded-lg bg-red-50 p-3 text-sm text-red-600">{error}</div>
+              <p className="mt-4 text-sm text-gray-600">
+                You can send a new link from your account page.
+              </p>
+            </>
+          )}
+
+          <div className="mt-6 text-sm">
+            <Link href="/account" className="font-medium text-indigo-600 hover:text-indigo-700">
+              Go to your account
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
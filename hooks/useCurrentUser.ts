@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react'
+import { cache } from '@/lib/cache'
+import type { Role } from '@/lib/auth'
+
+export interface CurrentUser {
+  id: string
+  role: Role
+  email?: string
+  name?: string
+}
+
+const CACHE_KEY = 'auth:me'
+
+async function loadCurrentUser(): Promise<CurrentUser | null> {
+  const cached = cache.get<CurrentUser>(CACHE_KEY)
+  if (cached) return cached
+
+  const response = await fetch('/api/auth/me')
+  if (!response.ok) return null
+
+  const { user } = await response.json()
+  cache.set(CACHE_KEY, user)
+  return user
+}
+
+// The signed-in user. proxy.ts already redirects signed-out visitors to /login,
+// so pages only need this for the user's id (cache keys), name and role.
+export function useCurrentUser(): CurrentUser | null {
+  const [user, setUser] = useState<CurrentUser | null>(null)
+
+  useEffect(() => {
+    let active = true
+
+    loadCurrentUser()
+      .then(current => {
+        if (active) setUser(current)
+      })
+      .catch(error => console.error('Error loading current user:', error))
+
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return user
+}
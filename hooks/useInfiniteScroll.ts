@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useRef } from 'react'
+
+// A ref for a sentinel element that calls onVisible when it scrolls into view
+// (or within 200px of it). Render the sentinel only while there is more to
+// load and nothing is loading, keyed by the next cursor: each page then gets
+// a fresh observer, which fires right away if the sentinel is still on screen.
+export function useInfiniteScroll(onVisible: () => void) {
+  const onVisibleRef = useRef(onVisible)
+
+  useEffect(() => {
+    onVisibleRef.current = onVisible
+  })
+
+  return useCallback((element: HTMLElement | null) => {
+    if (!element) return
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) onVisibleRef.current()
+    }, { rootMargin: '200px' })
+
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+}
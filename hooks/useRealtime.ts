@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react'
-import { functions } from '@/lib/functions'
+import { functions, toolPromptSection } from '@/lib/tools'
+import type { ConversationContext } from '@/lib/context'
 
 interface RealtimeMessage {
   role: 'user' | 'assistant' | 'system'
@@ -10,57 +11,99 @@ interface RealtimeMessage {
 interface RealtimeConfig {
   conversationId: string
   userId: string
-  conversationHistory?: Array<{ role: string; content: string }>
   onMessage?: (message: RealtimeMessage) => void
   onFunctionCall?: (name: string, args: any) => void
   onError?: (error: Error) => void
 }
 
+// Matches the per-minute voice quota in lib/ratelimit
+const USAGE_REPORT_INTERVAL_MS = 60 * 1000
+
+const VOICE_INSTRUCTIONS = `You are TutorFlow, an AI learning companion talking with a student by voice. Help students study effectively by:
+${toolPromptSection()}
+
+Keep spoken replies short and conversational. When asking quiz questions, read every option aloud with its letter.`
+
 export function useRealtime(config: RealtimeConfig) {
   const [isConnected, setIsConnected] = useState(false)
   const [isRecording, setIsRecording] = useState(false)
   const [messages, setMessages] = useState<RealtimeMessage[]>([])
   const [error, setError] = useState<string | null>(null)
 
-  const wsRef = useRef<WebSocket | null>(null)
+  const channelRef = useRef<RTCDataChannel | null>(null)
   const pcRef = useRef<RTCPeerConnection | null>(null)
-  const audioContextRef = useRef<AudioContext | null>(null)
+  const micRef = useRef<RTCRtpSender | null>(null)
+  const speakerRef = useRef<HTMLAudioElement | null>(null)
+  const callIdRef = useRef<string | null>(null)
   const streamRef = useRef<MediaStream | null>(null)
   const audioQueueRef = useRef<AudioBuffer[]>([])
   const isPlayingRef = useRef(false)
   const currentTranscriptRef = useRef<string>('')
   const currentResponseIdRef = useRef<string | null>(null)
-  const processorRef = useRef<ScriptProcessorNode | null>(null)
   const recognitionRef = useRef<any>(null)
   const userTranscriptRef = useRef<string>('')
   const assistantMessageSentRef = useRef<boolean>(false)
+  const prepaidMinutesRef = useRef(0)
+
+  // The latest callbacks, for effects that shouldn't restart when the caller
+  // passes a new config object on each render
+  const configRef = useRef(config)
+
+  useEffect(() => {
+    configRef.current = config
+  })
 
   const connect = useCallback(async () => {
     try {
-      // Get ephemeral token from our API
+      // The call carries the tutor's voice back, and the microphone while
+      // recording (push to talk); events go over the data channel
+      const pc = new RTCPeerConnection()
+      pcRef.current = pc
+      micRef.current = pc.addTransceiver('audio', { direction: 'sendrecv' }).sender
+
+      const speaker = new Audio()
+      speaker.autoplay = true
+      speakerRef.current = speaker
+      pc.ontrack = (event) => {
+        speaker.srcObject = event.streams[0]
+      }
+
+      const channel = pc.createDataChannel('oai-events')
+      channelRef.current = channel
+
+      const offer = await pc.createOffer()
+      await pc.setLocalDescription(offer)
+
+      // Our API opens the call with OpenAI, with the conversation so far
       const response = await fetch('/api/realtime', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId: config.conversationId, sdp: offer.sdp })
       })
 
       if (!response.ok) {
-        throw new Error('Failed to get session token')
+        // e.g. the daily voice quota is used up
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to start voice session')
       }
 
-      const { token } = await response.json()
-
-      // Connect to OpenAI Realtime API
-      const ws = new WebSocket(
-        `wss://api.openai.com/v1/realtime?model=gpt-4o-realtime-preview-2024-12-17`,
-        ['realtime', `openai-insecure-api-key.${token}`]
-      )
+      const { callId, sdp, prepaidMinutes, context, profile } = await response.json() as {
+        callId: string
+        sdp: string
+        prepaidMinutes: number
+        context: ConversationContext | null
+        profile: string | null
+      }
+      callIdRef.current = callId
+      prepaidMinutesRef.current = prepaidMinutes
 
-      ws.onopen = () => {
+      channel.onopen = () => {
         console.log('Connected to OpenAI Realtime API')
         setIsConnected(true)
         // Don't send config yet - wait for session.created event
       }
 
-      ws.onmessage = async (event) => {
+      channel.onmessage = async (event) => {
         const data = JSON.parse(event.data)
 
         // Debug logging to understand flow
@@ -71,10 +114,15 @@ export function useRealtime(config: RealtimeConfig) {
             console.log('✅ Session created')
 
             // Configure session with functions and disable VAD
-            ws.send(JSON.stringify({
+            channel.send(JSON.stringify({
               type: 'session.update',
               session: {
                 type: 'realtime',
+                instructions: [
+                  VOICE_INSTRUCTIONS,
+                  profile,
+                  context?.summary && `Earlier in this conversation: ${context.summary}`
+                ].filter(Boolean).join('\n\n'),
                 tools: functions.map(fn => ({
                   type: 'function',
                   name: fn.name,
@@ -91,25 +139,23 @@ export function useRealtime(config: RealtimeConfig) {
             }))
             console.log('📤 Sent session config with', functions.length, 'functions and turn_detection=null')
 
-            // Inject conversation history if provided
-            if (config.conversationHistory && config.conversationHistory.length > 0) {
-              console.log('📜 Injecting conversation history:', config.conversationHistory.length, 'messages')
-
-              // Add each message from history as a conversation item
-              for (const msg of config.conversationHistory) {
-                if (msg.role === 'user' || msg.role === 'assistant') {
-                  ws.send(JSON.stringify({
-                    type: 'conversation.item.create',
-                    item: {
-                      type: 'message',
-                      role: msg.role,
-                      content: [{
-                        type: 'input_text',
-                        text: msg.content
-                      }]
-                    }
-                  }))
-                }
+            // Inject the recent turns; older ones are covered by the summary
+            if (context && context.messages.length > 0) {
+              console.log('📜 Injecting conversation history:', context.messages.length, 'messages')
+
+              // Add each recent message as a conversation item
+              for (const msg of context.messages) {
+                channel.send(JSON.stringify({
+                  type: 'conversation.item.create',
+                  item: {
+                    type: 'message',
+                    role: msg.role,
+                    content: [{
+                      type: 'input_text',
+                      text: msg.content
+                    }]
+                  }
+                }))
               }
               console.log('✅ Conversation history injected')
             }
@@ -127,7 +173,7 @@ export function useRealtime(config: RealtimeConfig) {
           case 'input_audio_buffer.speech_stopped':
             console.log('🚨 VAD DETECTED SPEECH STOP - CANCELLING AUTO RESPONSE!')
             // Cancel any automatic response that VAD triggered
-            ws.send(JSON.stringify({
+            channel.send(JSON.stringify({
               type: 'response.cancel'
             }))
             // Don't clear buffer - we want to keep it for manual commit
@@ -193,13 +239,6 @@ export function useRealtime(config: RealtimeConfig) {
             console.error('❌ Transcription failed:', data)
             break
 
-          case 'response.output_audio.delta':
-            // Play audio chunk (GA API event name)
-            if (data.delta) {
-              playAudioChunk(data.delta)
-            }
-            break
-
           case 'response.output_audio_transcript.delta':
           case 'response.audio_transcript.delta':
             // Just accumulate transcript deltas, don't send message yet
@@ -238,14 +277,15 @@ export function useRealtime(config: RealtimeConfig) {
                 body: JSON.stringify({
                   name,
                   arguments: JSON.parse(args),
-                  conversationId: config.conversationId
+                  conversationId: config.conversationId,
+                  source: 'voice'
                 })
               }).then(r => r.json())
 
               console.log('✅ Function result:', result)
 
               // Send function result back to continue the conversation
-              ws.send(JSON.stringify({
+              channel.send(JSON.stringify({
                 type: 'conversation.item.create',
                 item: {
                   type: 'function_call_output',
@@ -255,7 +295,7 @@ export function useRealtime(config: RealtimeConfig) {
               }))
 
               // Trigger a new response to process the function result
-              ws.send(JSON.stringify({
+              channel.send(JSON.stringify({
                 type: 'response.create'
               }))
             } catch (err) {
@@ -274,40 +314,53 @@ export function useRealtime(config: RealtimeConfig) {
         }
       }
 
-      ws.onerror = (error) => {
-        console.error('WebSocket error:', error)
+      channel.onerror = (error) => {
+        console.error('Data channel error:', error)
         setError('Connection error')
         setIsConnected(false)
       }
 
-      ws.onclose = () => {
+      // Also when the server hangs up
+      channel.onclose = () => {
         console.log('Disconnected from OpenAI Realtime API')
         setIsConnected(false)
       }
 
-      wsRef.current = ws
+      await pc.setRemoteDescription({ type: 'answer', sdp })
     } catch (err) {
       console.error('Connection error:', err)
+      pcRef.current?.close()
+      pcRef.current = null
+      channelRef.current = null
       setError((err as Error).message)
       config.onError?.(err as Error)
     }
   }, [config])
 
   const disconnect = useCallback(() => {
-    if (wsRef.current) {
-      wsRef.current.close()
-      wsRef.current = null
+    if (callIdRef.current) {
+      // Ends the call for OpenAI too, and returns unused prepaid minutes
+      fetch('/api/realtime/hangup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ callId: callIdRef.current }),
+        keepalive: true
+      }).catch(err => console.error('Error hanging up:', err))
+      callIdRef.current = null
+    }
+    channelRef.current?.close()
+    channelRef.current = null
+    pcRef.current?.close()
+    pcRef.current = null
+    micRef.current = null
+    if (speakerRef.current) {
+      speakerRef.current.srcObject = null
+      speakerRef.current = null
     }
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop())
       streamRef.current = null
     }
-    if (audioContextRef.current) {
-      audioContextRef.current.close()
-      audioContextRef.current = null
-    }
-    // Clean up playback audio context
-    cleanupAudioPlayback()
     setIsConnected(false)
     setIsRecording(false)
   }, [])
@@ -315,9 +368,10 @@ export function useRealtime(config: RealtimeConfig) {
   const startRecording = useCallback(async () => {
     try {
       // Cancel any ongoing AI response first
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
+      const channel = channelRef.current
+      if (channel?.readyState === 'open') {
         if (currentResponseIdRef.current) {
-          wsRef.current.send(JSON.stringify({
+          channel.send(JSON.stringify({
             type: 'response.cancel'
           }))
           currentResponseIdRef.current = null
@@ -325,12 +379,14 @@ export function useRealtime(config: RealtimeConfig) {
         }
 
         // Clear any pending audio buffer
-        wsRef.current.send(JSON.stringify({
+        channel.send(JSON.stringify({
           type: 'input_audio_buffer.clear'
         }))
 
         // Stop any playing audio
-        stopAudioPlayback()
+        channel.send(JSON.stringify({
+          type: 'output_audio_buffer.clear'
+        }))
       }
 
       // Start browser-based speech recognition as backup
@@ -385,44 +441,9 @@ export function useRealtime(config: RealtimeConfig) {
       streamRef.current = stream
 
       console.log('🎙️ Microphone stream obtained:', stream.getAudioTracks().length, 'tracks')
-      console.log('🎙️ Audio track settings:', stream.getAudioTracks()[0]?.getSettings())
-
-      // Use default sample rate (browser will match microphone)
-      const audioContext = new AudioContext()
-      audioContextRef.current = audioContext
-
-      console.log('🎙️ AudioContext sample rate:', audioContext.sampleRate)
 
-      const source = audioContext.createMediaStreamSource(stream)
-      const processor = audioContext.createScriptProcessor(4096, 1, 1)
-      processorRef.current = processor
-
-      let chunkCount = 0
-      processor.onaudioprocess = (e) => {
-        if (wsRef.current?.readyState === WebSocket.OPEN) {
-          const inputData = e.inputBuffer.getChannelData(0)
-
-          // Check if we're actually getting audio
-          const hasAudio = inputData.some(sample => Math.abs(sample) > 0.01)
-          if (chunkCount < 5) {
-            console.log('🎙️ Audio chunk', chunkCount, 'has audio:', hasAudio, 'max:', Math.max(...Array.from(inputData)))
-            chunkCount++
-          }
-
-          // Resample to 24kHz if needed (OpenAI expects 24kHz)
-          const targetSampleRate = 24000
-          const resampled = resampleAudio(inputData, audioContext.sampleRate, targetSampleRate)
-          const pcm16 = float32ToPCM16(resampled)
-
-          wsRef.current.send(JSON.stringify({
-            type: 'input_audio_buffer.append',
-            audio: arrayBufferToBase64(pcm16)
-          }))
-        }
-      }
-
-      source.connect(processor)
-      processor.connect(audioContext.destination)
+      // Audio goes to the input buffer until stopRecording commits it
+      await micRef.current?.replaceTrack(stream.getAudioTracks()[0])
 
       setIsRecording(true)
     } catch (err) {
@@ -456,33 +477,26 @@ export function useRealtime(config: RealtimeConfig) {
     userTranscriptRef.current = ''
 
     // Send the recorded audio to AI immediately
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
+    const channel = channelRef.current
+    if (channel?.readyState === 'open') {
       console.log('📤 Sending recorded audio to AI')
-      wsRef.current.send(JSON.stringify({
+      channel.send(JSON.stringify({
         type: 'input_audio_buffer.commit'
       }))
 
-      wsRef.current.send(JSON.stringify({
+      channel.send(JSON.stringify({
         type: 'response.create'
       }))
     }
 
-    // Now disconnect audio processor to stop sending audio
-    if (processorRef.current && audioContextRef.current) {
-      processorRef.current.disconnect()
-      processorRef.current = null
-    }
+    // Now stop sending audio
+    micRef.current?.replaceTrack(null)
 
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop())
       streamRef.current = null
     }
 
-    if (audioContextRef.current) {
-      audioContextRef.current.close()
-      audioContextRef.current = null
-    }
-
     recognitionRef.current = null
 
     setIsRecording(false)
@@ -491,20 +505,22 @@ export function useRealtime(config: RealtimeConfig) {
   const sendRecordedAudio = useCallback(() => {
     console.log('📤 Manually sending recorded audio to AI')
     // Commit the audio buffer and request response
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({
+    const channel = channelRef.current
+    if (channel?.readyState === 'open') {
+      channel.send(JSON.stringify({
         type: 'input_audio_buffer.commit'
       }))
 
-      wsRef.current.send(JSON.stringify({
+      channel.send(JSON.stringify({
         type: 'response.create'
       }))
     }
   }, [])
 
   const sendMessage = useCallback((text: string) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({
+    const channel = channelRef.current
+    if (channel?.readyState === 'open') {
+      channel.send(JSON.stringify({
         type: 'conversation.item.create',
         item: {
           type: 'message',
@@ -513,12 +529,43 @@ export function useRealtime(config: RealtimeConfig) {
         }
       }))
 
-      wsRef.current.send(JSON.stringify({
+      channel.send(JSON.stringify({
         type: 'response.create'
       }))
     }
   }, [])
 
+  // Pay for each voice minute past the prepaid ones as it starts. The server
+  // hangs up calls that stop paying, and answers 429 (and hangs up) once
+  // today's quota is used up.
+  useEffect(() => {
+    if (!isConnected) return
+
+    let minutes = 0
+    const timer = setInterval(async () => {
+      minutes++
+      if (minutes < prepaidMinutesRef.current) return
+
+      try {
+        const response = await fetch('/api/realtime/usage', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ callId: callIdRef.current })
+        })
+        if (response.status === 429) {
+          const { error: message } = await response.json()
+          setError(message)
+          configRef.current.onError?.(new Error(message))
+          disconnect()
+        }
+      } catch (err) {
+        console.error('Error reporting realtime usage:', err)
+      }
+    }, USAGE_REPORT_INTERVAL_MS)
+
+    return () => clearInterval(timer)
+  }, [isConnected, disconnect])
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -539,128 +586,3 @@ export function useRealtime(config: RealtimeConfig) {
     sendMessage
   }
 }
-
-// Helper functions
-function resampleAudio(audioData: Float32Array, sourceSampleRate: number, targetSampleRate: number): Float32Array {
-  // If sample rates match, no resampling needed
-  if (sourceSampleRate === targetSampleRate) {
-    return audioData
-  }
-
-  const sampleRateRatio = sourceSampleRate / targetSampleRate
-  const newLength = Math.round(audioData.length / sampleRateRatio)
-  const result = new Float32Array(newLength)
-
-  // Simple linear interpolation resampling
-  for (let i = 0; i < newLength; i++) {
-    const position = i * sampleRateRatio
-    const index = Math.floor(position)
-    const fraction = position - index
-
-    if (index + 1 < audioData.length) {
-      // Linear interpolation between two samples
-      result[i] = audioData[index] * (1 - fraction) + audioData[index + 1] * fraction
-    } else {
-      result[i] = audioData[index]
-    }
-  }
-
-  return result
-}
-
-function float32ToPCM16(float32Array: Float32Array): ArrayBuffer {
-  const pcm16 = new Int16Array(float32Array.length)
-  for (let i = 0; i < float32Array.length; i++) {
-    const s = Math.max(-1, Math.min(1, float32Array[i]))
-    pcm16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF
-  }
-  return pcm16.buffer
-}
-
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer)
-  let binary = ''
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i])
-  }
-  return btoa(binary)
-}
-
-// Create audio context for playback
-let playbackAudioContext: AudioContext | null = null
-let audioQueue: AudioBufferSourceNode[] = []
-let nextPlayTime = 0
-
-function playAudioChunk(base64Audio: string) {
-  try {
-    // Initialize audio context if needed
-    if (!playbackAudioContext) {
-      playbackAudioContext = new AudioContext({ sampleRate: 24000 })
-    }
-
-    // Decode base64 to PCM16
-    const binaryString = atob(base64Audio)
-    const bytes = new Uint8Array(binaryString.length)
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i)
-    }
-
-    // Convert PCM16 to Float32
-    const pcm16 = new Int16Array(bytes.buffer)
-    const float32 = new Float32Array(pcm16.length)
-    for (let i = 0; i < pcm16.length; i++) {
-      float32[i] = pcm16[i] / 32768.0
-    }
-
-    // Create audio buffer
-    const audioBuffer = playbackAudioContext.createBuffer(1, float32.length, 24000)
-    audioBuffer.getChannelData(0).set(float32)
-
-    // Create source and schedule playback
-    const source = playbackAudioContext.createBufferSource()
-    source.buffer = audioBuffer
-    source.connect(playbackAudioContext.destination)
-
-    // Schedule playback to ensure smooth audio
-    const currentTime = playbackAudioContext.currentTime
-    if (nextPlayTime < currentTime) {
-      nextPlayTime = currentTime
-    }
-
-    source.start(nextPlayTime)
-    nextPlayTime += audioBuffer.duration
-
-    audioQueue.push(source)
-
-    // Clean up old sources
-    source.onended = () => {
-      const index = audioQueue.indexOf(source)
-      if (index > -1) {
-        audioQueue.splice(index, 1)
-      }
-    }
-  } catch (err) {
-    console.error('Audio playback error:', err)
-  }
-}
-
-function stopAudioPlayback() {
-  // Stop all currently playing audio
-  audioQueue.forEach(source => {
-    try {
-      source.stop()
-    } catch (e) {
-      // Ignore if already stopped
-    }
-  })
-  audioQueue = []
-  nextPlayTime = 0
-}
-
-function cleanupAudioPlayback() {
-  stopAudioPlayback()
-  if (playbackAudioContext) {
-    playbackAudioContext.close()
-    playbackAudioContext = null
-  }
-}
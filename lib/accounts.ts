@@ -0,0 +1,169 @@
+import { prisma } from './db'
+import { revokeAllSessions } from './sessions'
+import { apiTokenSelect, revokeAllApiTokens } from './apiTokens'
+
+// Account data export and deletion. Deleting a user cascades to everything
+// they own (see schema.prisma), so deletion only has to remove the User row;
+// it happens once the grace period has passed, in case they change their mind.
+
+const DELETION_GRACE_DAYS = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 14
+
+// Everything the user has created, and what is kept about their sign-ins, as
+// one JSON document. Secrets (password, refresh token and API token hashes)
+// are left out.
+export async function exportAccountData(userId: string) {
+  const [
+    account,
+    conversations,
+    quizzes,
+    quizAttempts,
+    flashcardSets,
+    studySessions,
+    studyGoals,
+    learnerFacts,
+    classrooms,
+    classroomsTaught,
+    identities,
+    sessions,
+    apiTokens
+  ] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        emailVerifiedAt: true,
+        createdAt: true,
+        updatedAt: true
+      }
+    }),
+    prisma.conversation.findMany({
+      where: { userId },
+      include: { messages: { orderBy: { createdAt: 'asc' } } },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.quiz.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    }),
+    // Including attempts at quizzes assigned by a teacher
+    prisma.quizAttempt.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.flashcardSet.findMany({
+      where: { userId },
+      include: { flashcards: { orderBy: { createdAt: 'asc' } } },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.studySession.findMany({
+      where: { userId },
+      orderBy: { startedAt: 'asc' }
+    }),
+    prisma.studyGoal.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.learnerFact.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.classroomMember.findMany({
+      where: { userId },
+      select: { joinedAt: true, classroom: { select: { id: true, name: true } } }
+    }),
+    prisma.classroom.findMany({
+      where: { teacherId: userId },
+      select: {
+        id: true,
+        name: true,
+        joinCode: true,
+        createdAt: true,
+        assignments: {
+          select: { id: true, quizId: true, flashcardSetId: true, dueAt: true, createdAt: true },
+          orderBy: { createdAt: 'asc' }
+        },
+        _count: { select: { members: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    }),
+    // Single sign-on accounts linked to this one
+    prisma.userIdentity.findMany({
+      where: { userId },
+      select: { issuer: true, subject: true, email: true, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.session.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastSeenAt: true,
+        expiresAt: true,
+        revokedAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.apiToken.findMany({
+      where: { userId },
+      select: { ...apiTokenSelect, revokedAt: true },
+      orderBy: { createdAt: 'asc' }
+    })
+  ])
+
+  return {
+    exportedAt: new Date(),
+    account,
+    conversations,
+    quizzes,
+    quizAttempts,
+    flashcardSets,
+    studySessions,
+    studyGoals,
+    learnerFacts,
+    classrooms: classrooms.map(m => ({ ...m.classroom, joinedAt: m.joinedAt })),
+    classroomsTaught: classroomsTaught.map(({ _count, ...classroom }) => ({
+      ...classroom,
+      studentCount: _count.members
+    })),
+    identities,
+    sessions,
+    apiTokens
+  }
+}
+
+// Marks the account for deletion, signs it out everywhere and revokes its API
+// tokens. Signing back in before the date and cancelling keeps the account.
+export async function scheduleAccountDeletion(userId: string): Promise<Date> {
+  const deleteAfter = new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deleteAfter }
+  })
+  await revokeAllSessions(userId)
+  await revokeAllApiTokens(userId)
+
+  return deleteAfter
+}
+
+export async function cancelAccountDeletion(userId: string) {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deleteAfter: null }
+  })
+}
+
+// Deletes every account whose grace period is over. Run daily by the cron job,
+// and before sign-in so a lapsed account can't be signed into in the meantime.
+export async function purgeDeletedAccounts(): Promise<number> {
+  const { count } = await prisma.user.deleteMany({
+    where: { deleteAfter: { lte: new Date() } }
+  })
+
+  return count
+}
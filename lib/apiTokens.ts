@@ -0,0 +1,162 @@
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from './db'
+import { parseRole, type Role } from './auth'
+
+// Personal access tokens for scripting against the API. proxy.ts accepts them
+// as `Authorization: Bearer <token>` on the API routes their scopes cover;
+// everything else (signing in, sessions, tokens themselves, AI chat) needs a
+// browser session.
+
+const TOKEN_PREFIX = 'tfp_'
+
+// Writes to lastUsedAt are skipped when the last one is this recent
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+
+export const API_SCOPES = {
+  'conversations:read': 'Read conversations and messages',
+  'conversations:write': 'Create, update and delete conversations',
+  'quizzes:read': 'Read quizzes and scores',
+  'quizzes:write': 'Submit quiz attempts and delete quizzes',
+  'flashcards:read': 'Read flashcard sets and due cards',
+  'flashcards:write': 'Edit, review and delete flashcards',
+  'classrooms:read': 'Read classes, class dashboards and assignments',
+  'classrooms:write': 'Manage classes, members and assignments',
+  'resources:read': 'Search the learning resource catalog',
+  'resources:write': 'Import and remove learning resources (admins only)',
+  'account:read': 'Read the profile and export account data'
+} as const
+
+export type ApiScope = keyof typeof API_SCOPES
+
+export function isApiScope(value: unknown): value is ApiScope {
+  return typeof value === 'string' && value in API_SCOPES
+}
+
+// Which scope area each API route belongs to
+const SCOPE_AREAS: [prefix: string, area: string][] = [
+  ['/api/conversations', 'conversations'],
+  ['/api/quizzes', 'quizzes'],
+  ['/api/flashcards', 'flashcards'],
+  ['/api/classrooms', 'classrooms'],
+  ['/api/assignments', 'classrooms'],
+  ['/api/resources', 'resources'],
+  ['/api/account', 'account']
+]
+
+// The scope a token needs for this request, or null when tokens can't be used here
+export function requiredScope(method: string, pathname: string): ApiScope | null {
+  const area = SCOPE_AREAS.find(([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`))?.[1]
+  if (!area) return null
+
+  const access = method === 'GET' || method === 'HEAD' ? 'read' : 'write'
+  const scope = `${area}:${access}`
+  return isApiScope(scope) ? scope : null
+}
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// What the token list shows
+export const apiTokenSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  createdAt: true
+} as const
+
+// Returns the token itself only this once
+export async function createApiToken(
+  userId: string,
+  { name, scopes, expiresAt }: { name: string; scopes: ApiScope[]; expiresAt: Date | null }
+) {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      userId,
+      name,
+      tokenHash: hashToken(token),
+      prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      scopes,
+      expiresAt
+    },
+    select: apiTokenSelect
+  })
+
+  return { token, apiToken }
+}
+
+export async function listApiTokens(userId: string) {
+  return prisma.apiToken.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+    },
+    select: apiTokenSelect,
+    orderBy: { createdAt: 'desc' }
+  })
+}
+
+// Returns false when the token doesn't exist or belongs to someone else
+export async function revokeApiToken(userId: string, tokenId: string): Promise<boolean> {
+  const { count } = await prisma.apiToken.updateMany({
+    where: { id: tokenId, userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  })
+
+  return count > 0
+}
+
+export async function revokeAllApiTokens(userId: string): Promise<number> {
+  const { count } = await prisma.apiToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  })
+
+  return count
+}
+
+export type ApiTokenUser = {
+  tokenId: string
+  scopes: ApiScope[]
+  userId: string
+  role: Role
+  email: string
+  name: string | null
+}
+
+// The token's owner and scopes, or null for unknown, revoked or expired tokens
+export async function verifyApiToken(token: string): Promise<ApiTokenUser | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) return null
+
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { email: true, name: true, role: true } } }
+  })
+
+  const now = new Date()
+  if (!apiToken || apiToken.revokedAt || (apiToken.expiresAt && apiToken.expiresAt <= now)) {
+    return null
+  }
+
+  if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: now }
+    })
+  }
+
+  return {
+    tokenId: apiToken.id,
+    scopes: apiToken.scopes.filter(isApiScope),
+    userId: apiToken.userId,
+    role: parseRole(apiToken.user.role),
+    email: apiToken.user.email,
+    name: apiToken.user.name
+  }
+}
@@ -1,11 +1,35 @@
 import { hash, compare } from 'bcryptjs'
 import { SignJWT, jwtVerify } from 'jose'
-import { cookies } from 'next/headers'
+import { cookies, headers } from 'next/headers'
+import type { NextResponse } from 'next/server'
 
 const JWT_SECRET = new TextEncoder().encode(
   process.env.JWT_SECRET || 'your-secret-key-change-in-production'
 )
 
+// Identity that proxy.ts forwards to route handlers after verifying the auth cookie.
+// The proxy strips these from incoming requests, so handlers can trust them.
+export const IDENTITY_HEADERS = {
+  userId: 'x-user-id',
+  email: 'x-user-email',
+  name: 'x-user-name',
+  role: 'x-user-role',
+  sessionId: 'x-session-id',
+  apiTokenId: 'x-api-token-id'
+} as const
+
+// Teachers run classrooms; admins can also manage the resource catalog and roles
+export const ROLES = ['student', 'teacher', 'admin'] as const
+
+export type Role = typeof ROLES[number]
+
+// Roles stored in the database and in tokens; anything unexpected is a student
+export function parseRole(value: unknown): Role {
+  return ROLES.find(role => role === value) ?? 'student'
+}
+
+export const MIN_PASSWORD_LENGTH = 6
+
 export async function hashPassword(password: string): Promise<string> {
   return hash(password, 12)
 }
@@ -14,20 +38,46 @@ export async function verifyPassword(password: string, hashedPassword: string):
   return compare(password, hashedPassword)
 }
 
-export async function createToken(userId: string, email?: string, name?: string): Promise<string> {
-  const token = await new SignJWT({ userId, email, name })
+// Access tokens are short-lived so a revoked session stops working quickly;
+// the refresh token (see lib/sessions.ts) keeps the user signed in.
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 15 // 15 minutes
+export const REFRESH_TOKEN_TTL_SECONDS = 60 * 60 * 24 * 30 // 30 days
+
+export const AUTH_COOKIES = {
+  access: 'auth-token',
+  refresh: 'refresh-token'
+} as const
+
+export type TokenClaims = {
+  userId: string
+  sessionId: string
+  role: Role // As of when the token was issued; refreshed along with it
+  email?: string
+  name?: string
+}
+
+export async function createToken({ userId, sessionId, role, email, name }: TokenClaims): Promise<string> {
+  const token = await new SignJWT({ userId, role, email, name })
     .setProtectedHeader({ alg: 'HS256' })
-    .setExpirationTime('7d')
+    .setJti(sessionId)
+    .setIssuedAt()
+    .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
     .sign(JWT_SECRET)
 
   return token
 }
 
-export async function verifyToken(token: string): Promise<{ userId: string; email?: string; name?: string } | null> {
+export async function verifyToken(token: string): Promise<TokenClaims | null> {
   try {
     const { payload } = await jwtVerify(token, JWT_SECRET)
+    // Only access tokens carry a session id; emailed account tokens and tokens
+    // issued before sessions existed don't
+    if (!payload.jti) return null
+
     return {
       userId: payload.userId as string,
+      sessionId: payload.jti,
+      role: parseRole(payload.role),
       email: payload.email as string | undefined,
       name: payload.name as string | undefined
     }
@@ -36,29 +86,139 @@ export async function verifyToken(token: string): Promise<{ userId: string; emai
   }
 }
 
-export async function setAuthCookie(token: string) {
-  const cookieStore = await cookies()
-  cookieStore.set('auth-token', token, {
+// Single-purpose tokens: links sent by email, and the start of a quiz attempt.
+// The audience keeps them from being used as access tokens (or for another
+// purpose), and the fingerprint ties each one to account state so it stops
+// working once that state changes (for quiz attempts, it's the quiz id).
+export type AccountTokenPurpose = 'verify-email' | 'reset-password' | 'delete-account' | 'quiz-attempt'
+
+export async function createAccountToken(
+  purpose: AccountTokenPurpose,
+  userId: string,
+  fingerprint: string,
+  ttlSeconds: number
+): Promise<string> {
+  return new SignJWT({ fingerprint })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(userId)
+    .setAudience(purpose)
+    .setJti(crypto.randomUUID())
+    .setIssuedAt()
+    .setExpirationTime(`${ttlSeconds}s`)
+    .sign(JWT_SECRET)
+}
+
+export async function verifyAccountToken(
+  purpose: AccountTokenPurpose,
+  token: string
+): Promise<{ userId: string; fingerprint: string; issuedAt: Date; tokenId: string | null } | null> {
+  try {
+    const { payload } = await jwtVerify(token, JWT_SECRET, { audience: purpose })
+    if (!payload.sub || typeof payload.fingerprint !== 'string' || !payload.iat) return null
+
+    return {
+      userId: payload.sub,
+      fingerprint: payload.fingerprint,
+      issuedAt: new Date(payload.iat * 1000),
+      tokenId: payload.jti ?? null
+    }
+  } catch {
+    return null
+  }
+}
+
+export function authCookieOptions(maxAge: number) {
+  return {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    maxAge: 60 * 60 * 24 * 7 // 7 days
-  })
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge
+  }
+}
+
+export async function setAuthCookies(tokens: { accessToken: string; refreshToken: string | null }) {
+  const cookieStore = await cookies()
+  cookieStore.set(AUTH_COOKIES.access, tokens.accessToken, authCookieOptions(ACCESS_TOKEN_TTL_SECONDS))
+  if (tokens.refreshToken) {
+    cookieStore.set(AUTH_COOKIES.refresh, tokens.refreshToken, authCookieOptions(REFRESH_TOKEN_TTL_SECONDS))
+  }
+}
+
+// Same as setAuthCookies, for responses built by hand (proxy.ts, redirects)
+export function setResponseAuthCookies(
+  response: NextResponse,
+  tokens: { accessToken: string; refreshToken: string | null }
+) {
+  response.cookies.set(AUTH_COOKIES.access, tokens.accessToken, authCookieOptions(ACCESS_TOKEN_TTL_SECONDS))
+  if (tokens.refreshToken) {
+    response.cookies.set(AUTH_COOKIES.refresh, tokens.refreshToken, authCookieOptions(REFRESH_TOKEN_TTL_SECONDS))
+  }
 }
 
 export async function getAuthCookie(): Promise<string | undefined> {
   const cookieStore = await cookies()
-  return cookieStore.get('auth-token')?.value
+  return cookieStore.get(AUTH_COOKIES.access)?.value
 }
 
-export async function removeAuthCookie() {
+export async function removeAuthCookies() {
   const cookieStore = await cookies()
-  cookieStore.delete('auth-token')
+  cookieStore.delete(AUTH_COOKIES.access)
+  cookieStore.delete(AUTH_COOKIES.refresh)
 }
 
-export async function getCurrentUser(): Promise<{ userId: string; email?: string; name?: string } | null> {
+// Who a request is from: a browser session, or a script using a personal
+// access token (see lib/apiTokens.ts)
+export type RequestUser = Omit<TokenClaims, 'sessionId'> & {
+  sessionId: string | null
+  apiTokenId: string | null
+}
+
+export async function getCurrentUser(): Promise<RequestUser | null> {
+  // Already verified (and refreshed if needed) by proxy.ts for this request
+  const headerStore = await headers()
+  const userId = headerStore.get(IDENTITY_HEADERS.userId)
+  if (userId) {
+    const decode = (value: string | null) => value ? decodeURIComponent(value) : undefined
+    return {
+      userId,
+      sessionId: headerStore.get(IDENTITY_HEADERS.sessionId),
+      apiTokenId: headerStore.get(IDENTITY_HEADERS.apiTokenId),
+      role: parseRole(headerStore.get(IDENTITY_HEADERS.role)),
+      email: decode(headerStore.get(IDENTITY_HEADERS.email)),
+      name: decode(headerStore.get(IDENTITY_HEADERS.name))
+    }
+  }
+
   const token = await getAuthCookie()
-  if (!token) return null
+  const claims = token ? await verifyToken(token) : null
+  return claims && { ...claims, apiTokenId: null }
+}
+
+// The caller's address as reported by the hosting proxy. Clients can send any
+// header, so only what our proxies add is trusted: by default the address
+// TRUSTED_PROXY_HOPS (default 1) entries from the end of X-Forwarded-For, since
+// each proxy appends the address it received from. CLIENT_IP_HEADER names a
+// single-address header to read instead (e.g. x-real-ip), for proxies that
+// always overwrite it.
+export function clientIp(headers: Headers): string | null {
+  const header = process.env.CLIENT_IP_HEADER?.trim().toLowerCase()
+  if (header && header !== 'x-forwarded-for') {
+    return headers.get(header)?.trim() || null
+  }
+
+  const hops = Math.max(1, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS)) || 1)
+  const forwarded = headers.get('x-forwarded-for')?.split(',').map(ip => ip.trim()) ?? []
+  return forwarded[forwarded.length - hops] || null
+}
+
+// ADMIN_EMAILS (comma-separated) is how the first admin gets in. A listed
+// address only counts once verified, which lib/authz checks in the database.
+export function isAdminEmail(email: string | null | undefined): boolean {
+  const admins = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean)
 
-  return verifyToken(token)
+  return !!email && admins.includes(email.toLowerCase())
 }
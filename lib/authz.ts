@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server'
+import type { Quiz } from '@prisma/client'
+import { prisma } from './db'
+import { getCurrentUser, isAdminEmail } from './auth'
+
+// Authorization helpers shared by every API route. Each returns either the
+// authorized value or the error response to send, so routes read:
+//
+//   const auth = await requireUser()
+//   if (!auth.success) return auth.response
+
+export type AuthUser = NonNullable<Awaited<ReturnType<typeof getCurrentUser>>>
+
+export type AuthResult<T> =
+  | { success: true; data: T }
+  | { success: false; response: NextResponse }
+
+export function unauthorized() {
+  return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+}
+
+export function forbidden() {
+  return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+}
+
+export function notFound(resource: string) {
+  return NextResponse.json({ error: `${resource} not found` }, { status: 404 })
+}
+
+export async function requireUser(): Promise<AuthResult<AuthUser>> {
+  const user = await getCurrentUser()
+  return user
+    ? { success: true, data: user }
+    : { success: false, response: unauthorized() }
+}
+
+// Administrators have the admin role, or a verified email listed in ADMIN_EMAILS.
+// The email is read from the database, not the token, so it is current.
+export async function isAdmin(user: AuthUser): Promise<boolean> {
+  if (user.role === 'admin') return true
+
+  const account = await prisma.user.findUnique({
+    where: { id: user.userId },
+    select: { email: true, emailVerifiedAt: true }
+  })
+
+  return !!account?.emailVerifiedAt && isAdminEmail(account.email)
+}
+
+export async function isTeacher(user: AuthUser): Promise<boolean> {
+  return user.role === 'teacher' || await isAdmin(user)
+}
+
+export async function requireAdmin(): Promise<AuthResult<AuthUser>> {
+  const auth = await requireUser()
+  if (auth.success && !await isAdmin(auth.data)) {
+    return { success: false, response: forbidden() }
+  }
+  return auth
+}
+
+export async function requireTeacher(): Promise<AuthResult<AuthUser>> {
+  const auth = await requireUser()
+  if (auth.success && !await isTeacher(auth.data)) {
+    return { success: false, response: forbidden() }
+  }
+  return auth
+}
+
+// 404 when the resource doesn't exist, 403 when it belongs to someone else
+export function requireOwner<T>(
+  user: AuthUser,
+  resource: T | null,
+  ownerId: (resource: T) => string,
+  name: string
+): AuthResult<T> {
+  if (!resource) {
+    return { success: false, response: notFound(name) }
+  }
+
+  if (ownerId(resource) !== user.userId) {
+    return { success: false, response: forbidden() }
+  }
+
+  return { success: true, data: resource }
+}
+
+// Conversation ids passed in request bodies must belong to the caller
+export async function requireConversation(user: AuthUser, conversationId: string) {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { id: true, userId: true }
+  })
+
+  return requireOwner(user, conversation, c => c.userId, 'Conversation')
+}
+
+// Classrooms are managed by their teacher
+export async function requireClassroom(user: AuthUser, classroomId: string) {
+  const classroom = await prisma.classroom.findUnique({
+    where: { id: classroomId }
+  })
+
+  return requireOwner(user, classroom, c => c.teacherId, 'Classroom')
+}
+
+// Quizzes can be taken by their owner and by students in a class they're assigned to
+export async function requireQuiz(user: AuthUser, quizId: string): Promise<AuthResult<Quiz>> {
+  const quiz = await prisma.quiz.findUnique({
+    where: { id: quizId }
+  })
+
+  if (quiz && quiz.userId !== user.userId) {
+    const assigned = await prisma.assignment.count({
+      where: { quizId, classroom: { members: { some: { userId: user.userId } } } }
+    })
+    if (assigned > 0) return { success: true, data: quiz }
+  }
+
+  return requireOwner(user, quiz, q => q.userId, 'Quiz')
+}
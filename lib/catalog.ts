@@ -0,0 +1,92 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import {
+  learningResourceSchema,
+  type ImportIssue,
+  type LearningResourceInput,
+  type ResourceLevel,
+  type ResourceType
+} from './resources'
+
+// Curated learning-resource catalog: import and Postgres full-text search.
+
+// Validate every record, then upsert by URL in one transaction. Nothing is
+// written when any record is invalid.
+export async function importResources(records: unknown[]) {
+  const issues: ImportIssue[] = []
+  const resources = new Map<string, LearningResourceInput>()
+
+  records.forEach((record, index) => {
+    const parsed = learningResourceSchema.safeParse(record)
+    if (!parsed.success) {
+      issues.push(...parsed.error.issues.map(issue => ({
+        row: index + 1,
+        path: issue.path.join('.'),
+        message: issue.message
+      })))
+      return
+    }
+    resources.set(parsed.data.url, parsed.data)
+  })
+
+  if (issues.length > 0) {
+    return { success: false as const, issues }
+  }
+
+  const existing = await prisma.learningResource.findMany({
+    where: { url: { in: [...resources.keys()] } },
+    select: { url: true }
+  })
+
+  await prisma.$transaction([...resources.values()].map(resource =>
+    prisma.learningResource.upsert({
+      where: { url: resource.url },
+      create: resource,
+      update: resource
+    })
+  ))
+
+  return {
+    success: true as const,
+    created: resources.size - existing.length,
+    updated: existing.length
+  }
+}
+
+export interface ResourceSearchResult {
+  id: string
+  title: string
+  url: string
+  description: string | null
+  type: string
+  level: string | null
+  subject: string | null
+  topics: string[]
+  source: string | null
+  rank: number
+}
+
+// Full-text search over title, topics, subject and description. Resources at
+// the requested level rank above unlevelled ones, which rank above other levels.
+export async function searchResources(options: {
+  query: string
+  type?: ResourceType
+  level?: ResourceLevel
+  limit?: number
+}): Promise<ResourceSearchResult[]> {
+  const { query, type, level, limit = 5 } = options
+
+  const typeFilter = type ? Prisma.sql`AND "type" = ${type}` : Prisma.empty
+  const levelBoost = level
+    ? Prisma.sql`CASE WHEN "level" = ${level} THEN 2 WHEN "level" IS NULL THEN 1.5 ELSE 1 END`
+    : Prisma.sql`1`
+
+  return prisma.$queryRaw<ResourceSearchResult[]>`
+    SELECT "id", "title", "url", "description", "type", "level", "subject", "topics", "source",
+      ts_rank("searchVector", query) * ${levelBoost} AS "rank"
+    FROM "LearningResource", websearch_to_tsquery('english', ${query}) AS query
+    WHERE "searchVector" @@ query ${typeFilter}
+    ORDER BY "rank" DESC, "title" ASC
+    LIMIT ${limit}
+  `
+}
@@ -0,0 +1,169 @@
+import { randomInt } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from './db'
+
+// Classrooms: join codes, assignment progress for students and the class
+// dashboard, and students' copies of assigned flashcard sets.
+
+// No 0/O or 1/I, so codes copied off a whiteboard still work
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const JOIN_CODE_LENGTH = 8
+
+export function generateJoinCode(): string {
+  return Array.from(
+    { length: JOIN_CODE_LENGTH },
+    () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]
+  ).join('')
+}
+
+// Codes are matched ignoring case, spaces and dashes
+export function normalizeJoinCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '')
+}
+
+// What an assignment needs loaded to be listed
+export const assignmentInclude = {
+  quiz: { select: { id: true, subject: true, topic: true } },
+  flashcardSet: { select: { id: true, topic: true } }
+} satisfies Prisma.AssignmentInclude
+
+type AssignmentWithItem = Prisma.AssignmentGetPayload<{ include: typeof assignmentInclude }>
+
+export function describeAssignment(assignment: AssignmentWithItem) {
+  return {
+    id: assignment.id,
+    kind: assignment.quiz ? 'quiz' as const : 'flashcards' as const,
+    title: assignment.quiz?.topic ?? assignment.flashcardSet?.topic ?? 'Untitled',
+    subject: assignment.quiz?.subject ?? null,
+    quizId: assignment.quizId,
+    dueAt: assignment.dueAt,
+    createdAt: assignment.createdAt
+  }
+}
+
+export type AssignmentStatus = 'not_started' | 'in_progress' | 'completed'
+
+export type AssignmentProgress =
+  | {
+      kind: 'quiz'
+      status: AssignmentStatus
+      attempts: number
+      firstScore: number | null // Retakes come after the answers were shown
+      latestScore: number | null
+      completedAt: Date | null // First attempt
+    }
+  | {
+      kind: 'flashcards'
+      status: AssignmentStatus
+      flashcardSetId: string | null // The student's copy, once they've opened it
+      cardsReviewed: number
+      cardsTotal: number
+    }
+
+export function progressKey(assignmentId: string, userId: string) {
+  return `${assignmentId}:${userId}`
+}
+
+// Progress of each user on each assignment, keyed by progressKey(). Quizzes
+// count every attempt the student has made and score the first one, since
+// each attempt shows the answers; flashcards count the cards in their copy
+// that have been reviewed at least once.
+export async function loadProgress(
+  assignments: { id: string; quizId: string | null }[],
+  userIds: string[]
+): Promise<Map<string, AssignmentProgress>> {
+  const quizIds = assignments.flatMap(a => a.quizId ? [a.quizId] : [])
+
+  const [attempts, copies] = await Promise.all([
+    quizIds.length > 0
+      ? prisma.quizAttempt.findMany({
+          where: { quizId: { in: quizIds }, userId: { in: userIds } },
+          select: { quizId: true, userId: true, score: true, completedAt: true },
+          orderBy: { completedAt: 'asc' }
+        })
+      : [],
+    prisma.flashcardSet.findMany({
+      where: { assignmentId: { in: assignments.map(a => a.id) }, userId: { in: userIds } },
+      select: {
+        id: true,
+        assignmentId: true,
+        userId: true,
+        flashcards: { select: { lastReviewedAt: true } }
+      }
+    })
+  ])
+
+  const progress = new Map<string, AssignmentProgress>()
+
+  for (const assignment of assignments) {
+    for (const userId of userIds) {
+      if (assignment.quizId) {
+        const taken = attempts.filter(a => a.quizId === assignment.quizId && a.userId === userId)
+        progress.set(progressKey(assignment.id, userId), {
+          kind: 'quiz',
+          status: taken.length > 0 ? 'completed' : 'not_started',
+          attempts: taken.length,
+          firstScore: taken[0]?.score ?? null,
+          latestScore: taken.at(-1)?.score ?? null,
+          completedAt: taken[0]?.completedAt ?? null
+        })
+        continue
+      }
+
+      const copy = copies.find(c => c.assignmentId === assignment.id && c.userId === userId)
+      const cardsTotal = copy?.flashcards.length ?? 0
+      const cardsReviewed = copy?.flashcards.filter(card => card.lastReviewedAt).length ?? 0
+
+      progress.set(progressKey(assignment.id, userId), {
+        kind: 'flashcards',
+        status: !copy ? 'not_started' : cardsTotal > 0 && cardsReviewed === cardsTotal ? 'completed' : 'in_progress',
+        flashcardSetId: copy?.id ?? null,
+        cardsReviewed,
+        cardsTotal
+      })
+    }
+  }
+
+  return progress
+}
+
+// The student's own copy of an assigned flashcard set, made the first time they
+// open it. Review state lives on the cards, so each student needs their own.
+export async function copyAssignedSet(
+  assignment: { id: string; flashcardSetId: string },
+  userId: string
+): Promise<{ id: string }> {
+  const where = { assignmentId_userId: { assignmentId: assignment.id, userId } }
+
+  const existing = await prisma.flashcardSet.findUnique({ where, select: { id: true } })
+  if (existing) return existing
+
+  const source = await prisma.flashcardSet.findUniqueOrThrow({
+    where: { id: assignment.flashcardSetId },
+    include: { flashcards: { orderBy: { createdAt: 'asc' } } }
+  })
+
+  try {
+    return await prisma.flashcardSet.create({
+      data: {
+        userId,
+        assignmentId: assignment.id,
+        topic: source.topic,
+        flashcards: {
+          create: source.flashcards.map(card => ({
+            front: card.front,
+            back: card.back,
+            difficulty: card.difficulty
+          }))
+        }
+      },
+      select: { id: true }
+    })
+  } catch (error) {
+    // Opened twice at once; the other request made the copy
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.flashcardSet.findUniqueOrThrow({ where, select: { id: true } })
+    }
+    throw error
+  }
+}
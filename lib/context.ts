@@ -0,0 +1,130 @@
+import { prisma } from './db'
+import { chatJSON } from './llm'
+import { consume } from './ratelimit'
+
+// What a conversation's next reply is given: a rolling summary of older turns
+// plus as many recent turns as fit a token budget. Turns that no longer fit
+// are folded into the summary in batches, so it changes every few turns
+// rather than on every one.
+
+export const TEXT_CONTEXT_TOKENS = Number(process.env.CHAT_CONTEXT_TOKENS) || 6000
+export const REALTIME_CONTEXT_TOKENS = Number(process.env.REALTIME_CONTEXT_TOKENS) || 3000
+
+// After folding, recent turns fill at most this share of their budget
+const FOLD_TARGET = 0.5
+
+// Caps on what one summary update reads; the oldest text goes first
+const MAX_FOLD_MESSAGE_CHARS = 2000
+const MAX_FOLD_TRANSCRIPT_CHARS = 24000
+
+export interface Turn {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface ConversationContext {
+  summary: string | null
+  messages: Turn[]
+}
+
+// Rough count for budgeting: about four characters per token in English
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// The newest messages that fit the budget. The latest is always included.
+export function fitToBudget<T extends { content: string }>(messages: T[], budget: number): T[] {
+  let used = 0
+  let start = messages.length
+
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1].content)
+    if (start < messages.length && used + cost > budget) break
+    used += cost
+    start--
+  }
+
+  return messages.slice(start)
+}
+
+// The stored conversation's summary and the recent turns to send with it,
+// folding older turns into the summary first when they don't all fit. Folding
+// counts against the owner's completions quota; over it, only what fits is sent.
+export async function buildContext(conversationId: string, budget: number): Promise<ConversationContext> {
+  const { userId, summary, summaryThrough } = await prisma.conversation.findUniqueOrThrow({
+    where: { id: conversationId },
+    select: { userId: true, summary: true, summaryThrough: true }
+  })
+
+  const unsummarized = await prisma.message.findMany({
+    where: {
+      conversationId,
+      role: { in: ['user', 'assistant'] },
+      content: { not: '' },
+      createdAt: summaryThrough ? { gt: summaryThrough } : undefined
+    },
+    select: { role: true, content: true, createdAt: true },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  const recentBudget = Math.max(budget - estimateTokens(summary ?? ''), 0)
+  const fits = fitToBudget(unsummarized, recentBudget)
+
+  if (fits.length === unsummarized.length || !(await consume('completions', userId)).allowed) {
+    return { summary, messages: fits.map(toTurn) }
+  }
+
+  const keep = fitToBudget(unsummarized, recentBudget * FOLD_TARGET)
+  const folded = unsummarized.slice(0, unsummarized.length - keep.length)
+
+  try {
+    const updated = await summarize(summary, folded.map(toTurn))
+
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { summary: updated, summaryThrough: folded[folded.length - 1].createdAt }
+    })
+
+    return { summary: updated, messages: keep.map(toTurn) }
+  } catch (error) {
+    // Send what fits this time and try folding again next turn
+    console.error('Error summarizing conversation:', error)
+    return { summary, messages: fits.map(toTurn) }
+  }
+}
+
+function toTurn(message: { role: string; content: string }): Turn {
+  return { role: message.role === 'user' ? 'user' : 'assistant', content: message.content }
+}
+
+// Extends the summary with turns that are about to stop being sent in full
+async function summarize(summary: string | null, turns: Turn[]): Promise<string> {
+  const transcript = turns
+    .map(t => `${t.role === 'user' ? 'Student' : 'Tutor'}: ${t.content.slice(0, MAX_FOLD_MESSAGE_CHARS)}`)
+    .join('\n\n')
+    .slice(-MAX_FOLD_TRANSCRIPT_CHARS)
+
+  const prompt = `${summary ? `Summary of the tutoring conversation so far:\n${summary}\n\n` : ''}Next part of the conversation:
+${transcript}
+
+Return a JSON object:
+{
+  "summary": "An updated summary of the whole conversation"
+}
+
+Keep it under 250 words. Keep what the student is studying, what they found hard, what they got right or wrong, quizzes and flashcards made, and anything they asked to come back to. Drop small talk.`
+
+  const result = await chatJSON<{ summary?: unknown }>({
+    messages: [
+      { role: 'system', content: 'You keep running notes on tutoring conversations so the tutor can pick up where it left off.' },
+      { role: 'user', content: prompt }
+    ],
+    task: { name: 'conversation_summary', input: { summary, transcript } }
+  }, {})
+
+  if (typeof result.summary !== 'string' || !result.summary.trim()) {
+    throw new Error('Model returned no summary')
+  }
+
+  return result.summary.trim()
+}
@@ -0,0 +1,184 @@
+import { Prisma, type Message } from '@prisma/client'
+import { prisma } from './db'
+import { chatJSON } from './llm'
+import { consume } from './ratelimit'
+import { extractLearnerFacts } from './learnerProfile'
+
+// Conversation history: saving messages, automatic titles and subject tags,
+// and Postgres full-text search over message content.
+
+export const MESSAGE_ROLES = ['user', 'assistant', 'system'] as const
+
+export type MessageRole = (typeof MESSAGE_ROLES)[number]
+
+// Matched words in snippets are wrapped in these; the conversations page
+// splits on them, so content is never rendered as HTML
+const HIGHLIGHT_START = '<mark>'
+const HIGHLIGHT_END = '</mark>'
+
+export interface MessageSearchHit {
+  messageId: string
+  conversationId: string
+  conversationTitle: string
+  role: string
+  createdAt: Date
+  snippet: string
+  rank: number
+}
+
+// The user's messages matching a web-style query ("quoted phrases", -exclusions,
+// or), best match first. `to` is exclusive.
+export async function searchMessages(options: {
+  userId: string
+  query: string
+  role?: MessageRole
+  from?: Date
+  to?: Date
+  limit?: number
+}): Promise<MessageSearchHit[]> {
+  const { userId, query, role, from, to, limit = 20 } = options
+
+  const roleFilter = role ? Prisma.sql`AND m."role" = ${role}` : Prisma.empty
+  const fromFilter = from ? Prisma.sql`AND m."createdAt" >= ${from}` : Prisma.empty
+  const toFilter = to ? Prisma.sql`AND m."createdAt" < ${to}` : Prisma.empty
+  const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`
+
+  return prisma.$queryRaw<MessageSearchHit[]>`
+    SELECT m."id" AS "messageId", m."conversationId", c."title" AS "conversationTitle",
+      m."role", m."createdAt",
+      ts_headline('english', m."content", query, ${headlineOptions}) AS "snippet",
+      ts_rank(m."searchVector", query) AS "rank"
+    FROM "Message" m
+    JOIN "Conversation" c ON c."id" = m."conversationId",
+      websearch_to_tsquery('english', ${query}) AS query
+    WHERE c."userId" = ${userId} AND m."searchVector" @@ query
+      ${roleFilter} ${fromFilter} ${toFilter}
+    ORDER BY "rank" DESC, m."createdAt" DESC
+    LIMIT ${limit}
+  `
+}
+
+// How much of the opening exchange the title is based on
+const TITLE_CONTEXT_MESSAGES = 4
+const TITLE_CONTEXT_CHARS = 1500
+
+const MAX_TITLE_LENGTH = 80
+const MAX_TOPICS = 5
+
+export interface ConversationTitle {
+  title: string
+  subject: string | null
+  topics: string[]
+}
+
+// Titles the conversation and tags its subject and topics from the opening
+// exchange. Does nothing (returns null) once titled, whether automatically or
+// by the user renaming it, or before the tutor has replied. The model call
+// counts against the owner's completions quota; over it, titling waits.
+export async function titleConversation(conversationId: string): Promise<ConversationTitle | null> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: {
+      userId: true,
+      titledAt: true,
+      messages: {
+        where: { role: { in: ['user', 'assistant'] } },
+        select: { role: true, content: true },
+        orderBy: { createdAt: 'asc' },
+        take: TITLE_CONTEXT_MESSAGES
+      }
+    }
+  })
+
+  const messages = conversation?.messages ?? []
+  const firstMessage = messages.find(m => m.role === 'user')?.content
+  if (!conversation || conversation.titledAt || !firstMessage || !messages.some(m => m.role === 'assistant')) {
+    return null
+  }
+
+  if (!(await consume('completions', conversation.userId)).allowed) return null
+
+  const transcript = messages
+    .map(m => `${m.role === 'user' ? 'Student' : 'Tutor'}: ${m.content}`)
+    .join('\n\n')
+    .slice(0, TITLE_CONTEXT_CHARS)
+
+  const prompt = `Here is the start of a tutoring conversation:
+
+${transcript}
+
+Return a JSON object:
+{
+  "title": "A concise title of at most 6 words, e.g. Integration by Parts Practice",
+  "subject": "The school subject, e.g. Math, Biology, Chemistry, Physics, History, English, Computer Science, or null if none",
+  "topics": ["1 to 3 specific topics, e.g. integration by parts"]
+}`
+
+  const result = await chatJSON<{ title?: unknown; subject?: unknown; topics?: unknown }>({
+    messages: [
+      { role: 'system', content: 'You label tutoring conversations so students can find them later.' },
+      { role: 'user', content: prompt }
+    ],
+    task: { name: 'conversation_title', input: { firstMessage } }
+  }, {})
+
+  const title = typeof result.title === 'string' ? result.title.trim().slice(0, MAX_TITLE_LENGTH) : ''
+  if (!title) return null
+
+  const subject = typeof result.subject === 'string' && result.subject.trim() ? result.subject.trim() : null
+  const topics = Array.isArray(result.topics)
+    ? [...new Set(result.topics
+        .filter((t): t is string => typeof t === 'string')
+        .map(t => t.trim().toLowerCase())
+        .filter(Boolean))].slice(0, MAX_TOPICS)
+    : []
+
+  // Skipped if the user renamed it while the title was being generated
+  const { count } = await prisma.conversation.updateMany({
+    where: { id: conversationId, titledAt: null },
+    data: { title, subject, topics, titledAt: new Date() }
+  })
+
+  return count > 0 ? { title, subject, topics } : null
+}
+
+// Saves a message and bumps the conversation. After a tutor reply, titles and
+// tags the conversation once the tutor has first replied, and notes what it
+// showed about the student every few messages; returns the new title, if any.
+// Tutor replies come from /api/chat or a voice call, never straight from a client.
+export async function saveMessage(
+  conversation: { id: string; userId: string },
+  data: { role: 'user' | 'assistant'; content: string; audioUrl?: string | null; functionCalls?: Prisma.InputJsonValue | null }
+): Promise<{ message: Message; conversation: ConversationTitle | null }> {
+  const message = await prisma.message.create({
+    data: {
+      conversationId: conversation.id,
+      role: data.role,
+      content: data.content,
+      audioUrl: data.audioUrl,
+      functionCalls: data.functionCalls ?? Prisma.JsonNull
+    }
+  })
+
+  await prisma.conversation.update({
+    where: { id: conversation.id },
+    data: { updatedAt: new Date() }
+  })
+
+  let title = null
+  if (data.role === 'assistant') {
+    try {
+      title = await titleConversation(conversation.id)
+    } catch (error) {
+      console.error('Error titling conversation:', error)
+    }
+
+    try {
+      await extractLearnerFacts(conversation.userId, conversation.id)
+    } catch (error) {
+      console.error('Error extracting learner facts:', error)
+    }
+  }
+
+  return { message, conversation: title }
+}
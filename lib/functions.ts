@@ -1,200 +1,38 @@
+import { Prisma } from '@prisma/client'
 import { prisma } from './db'
 import { z } from 'zod'
+import { chatJSON } from './llm'
+import { getTool, tools, type ToolName } from './tools'
+import { gradeAnswer } from './grading'
+import { searchResources } from './catalog'
+import { consume, formatRetryAfter } from './ratelimit'
+import { recordQuizResult, saveLearnerFact } from './learnerProfile'
+import type { ResourceLevel, ResourceType } from './resources'
+import {
+  describeQuestion,
+  formatCorrectAnswer,
+  normalizeQuestions,
+  parseSpokenAnswer,
+  questionSchema,
+  questionTypePrompts,
+  type AttemptAnswer,
+  type Question,
+  type QuestionType
+} from './quiz'
+
+type ToolArgs<K extends ToolName> = z.output<(typeof tools)[K]['parameters']> & {
+  userId: string
+  conversationId?: string
+}
 
-// Define function schemas for OpenAI
-export const functions = [
-  {
-    name: 'create_quiz',
-    description: 'Create a new quiz on a specific subject and topic. Generate questions based on the topic and difficulty level.',
-    parameters: {
-      type: 'object',
-      properties: {
-        userId: {
-          type: 'string',
-          description: 'The ID of the user creating the quiz'
-        },
-        subject: {
-          type: 'string',
-          description: 'The subject area (e.g., Math, Science, History)'
-        },
-        topic: {
-          type: 'string',
-          description: 'The specific topic within the subject'
-        },
-        questionCount: {
-          type: 'number',
-          description: 'Number of questions to generate',
-          default: 5
-        },
-        difficulty: {
-          type: 'string',
-          enum: ['easy', 'medium', 'hard'],
-          description: 'Difficulty level of the quiz'
-        }
-      },
-      required: ['userId', 'subject', 'topic', 'difficulty']
-    }
-  },
-  {
-    name: 'log_study_session',
-    description: 'Log a completed study session with duration and subject',
-    parameters: {
-      type: 'object',
-      properties: {
-        userId: {
-          type: 'string',
-          description: 'The ID of the user'
-        },
-        subject: {
-          type: 'string',
-          description: 'The subject studied'
-        },
-        topic: {
-          type: 'string',
-          description: 'The specific topic studied'
-        },
-        duration: {
-          type: 'number',
-          description: 'Duration of the session in minutes'
-        }
-      },
-      required: ['userId', 'subject', 'duration']
-    }
-  },
-  {
-    name: 'get_study_progress',
-    description: 'Get study progress statistics for a user, optionally filtered by subject',
-    parameters: {
-      type: 'object',
-      properties: {
-        userId: {
-          type: 'string',
-          description: 'The ID of the user'
-        },
-        subject: {
-          type: 'string',
-          description: 'Optional: filter by specific subject'
-        },
-        days: {
-          type: 'number',
-          description: 'Number of days to look back (default 30)',
-          default: 30
-        }
-      },
-      required: ['userId']
-    }
-  },
-  {
-    name: 'set_study_goal',
-    description: 'Create a new study goal with a target and deadline',
-    parameters: {
-      type: 'object',
-      properties: {
-        userId: {
-          type: 'string',
-          description: 'The ID of the user'
-        },
-        subject: {
-          type: 'string',
-          description: 'The subject for the goal'
-        },
-        targetHours: {
-          type: 'number',
-          description: 'Target study hours'
-        },
-        deadline: {
-          type: 'string',
-          description: 'Deadline in ISO format'
-        }
-      },
-      required: ['userId', 'subject', 'targetHours', 'deadline']
-    }
-  },
-  {
-    name: 'get_quiz_history',
-    description: 'Get quiz attempt history for a user, including scores',
-    parameters: {
-      type: 'object',
-      properties: {
-        userId: {
-          type: 'string',
-          description: 'The ID of the user'
-        },
-        subject: {
-          type: 'string',
-          description: 'Optional: filter by subject'
-        },
-        limit: {
-          type: 'number',
-          description: 'Maximum number of results to return',
-          default: 10
-        }
-      },
-      required: ['userId']
-    }
-  },
-  {
-    name: 'recommend_review_topics',
-    description: 'Analyze past quizzes and study sessions to recommend topics that need review based on scores and time since last studied',
-    parameters: {
-      type: 'object',
-      properties: {
-        userId: {
-          type: 'string',
-          description: 'The ID of the user'
-        },
-        subject: {
-          type: 'string',
-          description: 'Optional: focus on specific subject'
-        }
-      },
-      required: ['userId']
-    }
-  },
-  {
-    name: 'search_learning_resources',
-    description: 'Search for learning resources (articles, videos) on a specific topic',
-    parameters: {
-      type: 'object',
-      properties: {
-        topic: {
-          type: 'string',
-          description: 'The topic to search for'
-        },
-        resourceType: {
-          type: 'string',
-          enum: ['article', 'video', 'tutorial', 'any'],
-          description: 'Type of resource to search for',
-          default: 'any'
-        }
-      },
-      required: ['topic']
-    }
-  },
-  {
-    name: 'generate_flashcards',
-    description: 'Generate flashcards from study material to help memorize key concepts. Use when the user wants to memorize facts, definitions, or concepts from the current topic.',
-    parameters: {
-      type: 'object',
-      properties: {
-        topic: {
-          type: 'string',
-          description: 'The topic these flashcards cover'
-        },
-        content: {
-          type: 'string',
-          description: 'The study material or concepts to create flashcards from. Include all the key facts, definitions, and concepts that should be turned into flashcards.'
-        },
-        count: {
-          type: 'number',
-          description: 'Number of flashcards to generate',
-          default: 5
-        }
-      },
-      required: ['topic', 'content']
-    }
-  }
-]
+// Where a tool call came from, as recorded in the activity log
+export type ToolSource = 'chat' | 'voice' | 'api'
+
+export interface ToolContext {
+  userId?: string
+  conversationId?: string
+  source?: ToolSource // Defaults to 'api'
+}
 
 // Function implementations
 export async function createQuiz(args: {
@@ -203,11 +41,16 @@ export async function createQuiz(args: {
   topic: string
   questionCount?: number
   difficulty: 'easy' | 'medium' | 'hard'
+  questionTypes?: QuestionType[]
 }) {
-  const { userId, subject, topic, questionCount = 5, difficulty } = args
+  const { userId, subject, topic, questionCount = 5, difficulty, questionTypes = ['multiple_choice'] } = args
 
-  // Generate quiz questions based on topic and difficulty
-  const questions = await generateQuizQuestions(topic, questionCount, difficulty)
+  // Generate quiz questions based on topic, difficulty and question types
+  const questions = await generateQuizQuestions(topic, questionCount, difficulty, questionTypes)
+
+  if (questions.length === 0) {
+    return { success: false, error: `Could not generate questions about ${topic}. Please try again.` }
+  }
 
   const quiz = await prisma.quiz.create({
     data: {
@@ -221,7 +64,7 @@ export async function createQuiz(args: {
   return {
     success: true,
     quizId: quiz.id,
-    message: `Created a ${difficulty} quiz on ${topic} with ${questionCount} questions. Visit the Quizzes tab to take it!`
+    message: `Created a ${difficulty} quiz on ${topic} with ${questions.length} questions. Take it in the Quizzes tab, or ask me to quiz you right here!`
   }
 }
 
@@ -247,6 +90,7 @@ export async function logStudySession(args: {
 
   // Update any active goals
   await updateGoalProgress(args.userId, args.subject, args.duration / 60)
+  await saveLearnerFact(args.userId, { kind: 'subject', content: args.subject.slice(0, 200) }, 'study')
 
   return {
     success: true,
@@ -302,6 +146,12 @@ export async function setStudyGoal(args: {
     }
   })
 
+  await saveLearnerFact(args.userId, {
+    kind: 'goal',
+    content: `Study ${args.targetHours} hours of ${args.subject}`.slice(0, 200),
+    expiresAt: goal.deadline
+  }, 'study')
+
   return {
     success: true,
     goalId: goal.id,
@@ -323,6 +173,7 @@ export async function getQuizHistory(args: {
     },
     include: {
       attempts: {
+        where: { userId },
         orderBy: { createdAt: 'desc' },
         take: 1
       }
@@ -357,6 +208,7 @@ export async function recommendReviewTopics(args: {
     },
     include: {
       attempts: {
+        where: { userId },
         orderBy: { createdAt: 'desc' },
         take: 1
       }
@@ -384,30 +236,30 @@ export async function recommendReviewTopics(args: {
 
 export async function searchLearningResources(args: {
   topic: string
-  resourceType?: 'article' | 'video' | 'tutorial' | 'any'
+  resourceType?: ResourceType | 'any'
+  level?: ResourceLevel
 }) {
-  // This would integrate with an external API in production
-  // For demo purposes, return mock data
-  const mockResources = [
-    {
-      title: `Understanding ${args.topic}: A Comprehensive Guide`,
-      type: 'article',
-      url: `https://example.com/learn/${args.topic.toLowerCase().replace(/\s+/g, '-')}`,
-      description: `In-depth article covering the fundamentals of ${args.topic}`
-    },
-    {
-      title: `${args.topic} Video Tutorial`,
-      type: 'video',
-      url: `https://youtube.com/watch?v=${args.topic.slice(0, 11)}`,
-      description: `Step-by-step video tutorial on ${args.topic}`
-    }
-  ]
+  const { topic, resourceType = 'any', level } = args
+
+  // Only curated catalog entries; never made-up links
+  const resources = await searchResources({
+    query: topic,
+    type: resourceType === 'any' ? undefined : resourceType,
+    level
+  })
 
   return {
-    resources: mockResources.filter(r =>
-      args.resourceType === 'any' || !args.resourceType || r.type === args.resourceType
-    ),
-    message: `Found learning resources for ${args.topic}`
+    resources: resources.map(({ title, url, description, type, level, source }) => ({
+      title,
+      url,
+      description,
+      type,
+      level,
+      source
+    })),
+    message: resources.length > 0
+      ? `Found ${resources.length} curated learning resources for ${topic}`
+      : `No curated learning resources found for ${topic}`
   }
 }
 
@@ -420,7 +272,7 @@ export async function generateFlashcards(args: {
 }) {
   const { userId, conversationId, topic, content, count = 5 } = args
 
-  // Use GPT-4 to extract Q&A pairs from the content
+  // Use the LLM to extract Q&A pairs from the content
   const flashcards = await extractFlashcardsFromContent(content, topic, count)
 
   // Create flashcard set in database
@@ -450,11 +302,197 @@ export async function generateFlashcards(args: {
   }
 }
 
-async function extractFlashcardsFromContent(content: string, topic: string, count: number) {
-  // Use OpenAI to intelligently extract Q&A pairs
-  const openai = await import('openai')
-  const client = new openai.default({ apiKey: process.env.OPENAI_API_KEY })
+export async function startQuiz(args: {
+  userId: string
+  conversationId?: string
+  quizId?: string
+  topic?: string
+}) {
+  const { userId, conversationId, quizId, topic } = args
+
+  // A specific quiz, otherwise the newest one matching the topic
+  const quiz = await prisma.quiz.findFirst({
+    where: quizId
+      ? { id: quizId, userId }
+      : { userId, topic: topic ? { contains: topic, mode: 'insensitive' } : undefined },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  if (!quiz) {
+    return {
+      success: false,
+      error: topic
+        ? `No quiz found on ${topic}. Create one with create_quiz first.`
+        : 'No quiz found. Create one with create_quiz first.'
+    }
+  }
+
+  const questions = normalizeQuestions(quiz.questions)
+  if (questions.length === 0) {
+    return { success: false, error: 'This quiz has no questions.' }
+  }
+
+  // Only one conversational quiz at a time; abandon any unfinished one
+  await prisma.quizSession.updateMany({
+    where: { userId, finishedAt: null },
+    data: { finishedAt: new Date() }
+  })
+
+  const session = await prisma.quizSession.create({
+    data: { quizId: quiz.id, userId, conversationId }
+  })
+
+  const question = presentQuestion(questions, 0)
+
+  return {
+    success: true,
+    quizSessionId: session.id,
+    topic: quiz.topic,
+    questionCount: questions.length,
+    question,
+    message: `Starting your ${quiz.topic} quiz with ${questions.length} questions. Question 1: ${question.text}`
+  }
+}
+
+export async function answerQuizQuestion(args: {
+  userId: string
+  quizSessionId?: string
+  answer: string
+}) {
+  const { userId, quizSessionId, answer } = args
+
+  const session = await findActiveQuizSession(userId, quizSessionId)
+  if (!session) {
+    return { success: false, error: 'No quiz in progress. Use start_quiz first.' }
+  }
+
+  const questions = normalizeQuestions(session.quiz.questions)
+  const question = questions[session.currentIndex]
+  if (!question) {
+    return { success: false, error: 'All questions have been answered. Use finish_quiz to record the result.' }
+  }
+
+  // Ask again rather than grading an answer we couldn't read
+  const parsed = parseSpokenAnswer(question, answer)
+  if (parsed === null) {
+    return {
+      success: false,
+      error: `Couldn't interpret "${answer}" as an answer to this ${question.type.replace('_', ' ')} question. Ask the student to answer again.`,
+      question: presentQuestion(questions, session.currentIndex)
+    }
+  }
+
+  // Short answers are graded by the model
+  if (question.type === 'short_answer') {
+    const quota = await consume('completions', userId)
+    if (!quota.allowed) {
+      return {
+        success: false,
+        error: `Daily limit reached: ${quota.limit} AI replies a day. Grading resumes ${formatRetryAfter(quota.retryAfterSeconds)}; the student can finish the quiz then.`
+      }
+    }
+  }
+
+  const grade = await gradeAnswer(question, parsed)
+  const recorded: AttemptAnswer = {
+    questionId: question.id,
+    answer: parsed,
+    timeTakenSeconds: Math.round((Date.now() - session.updatedAt.getTime()) / 1000),
+    ...grade
+  }
+
+  const nextIndex = session.currentIndex + 1
+  await prisma.quizSession.update({
+    where: { id: session.id },
+    data: {
+      currentIndex: nextIndex,
+      answers: [...sessionAnswers(session.answers), recorded]
+    }
+  })
+
+  const nextQuestion = nextIndex < questions.length ? presentQuestion(questions, nextIndex) : null
+  const verdict = grade.correct
+    ? 'Correct!'
+    : grade.credit > 0
+      ? `Partly right. A full answer: ${formatCorrectAnswer(question)}.`
+      : `Not quite. The answer is ${formatCorrectAnswer(question)}.`
+
+  return {
+    success: true,
+    correct: grade.correct,
+    credit: grade.credit,
+    feedback: grade.feedback,
+    correctAnswer: formatCorrectAnswer(question),
+    explanation: question.explanation,
+    nextQuestion,
+    remaining: questions.length - nextIndex,
+    message: [
+      verdict,
+      grade.feedback,
+      question.explanation,
+      nextQuestion
+        ? `Question ${nextQuestion.number}: ${nextQuestion.text}`
+        : 'That was the last question. Use finish_quiz to record the score.'
+    ].filter(Boolean).join(' ')
+  }
+}
+
+export async function finishQuiz(args: {
+  userId: string
+  quizSessionId?: string
+}) {
+  const { userId, quizSessionId } = args
+
+  const session = await findActiveQuizSession(userId, quizSessionId)
+  if (!session) {
+    return { success: false, error: 'No quiz in progress.' }
+  }
+
+  // Questions not reached before finishing count as skipped
+  const questions = normalizeQuestions(session.quiz.questions)
+  const answered = new Map(sessionAnswers(session.answers).map(a => [a.questionId, a]))
+  const answers: AttemptAnswer[] = questions.map(question => answered.get(question.id) ?? {
+    questionId: question.id,
+    answer: null,
+    correct: false,
+    credit: 0
+  })
+
+  const earned = answers.reduce((sum, a) => sum + a.credit, 0)
+  const score = Math.round(earned / questions.length * 100)
+  const correctCount = answers.filter(a => a.correct).length
+  const completedAt = new Date()
+
+  const attempt = await prisma.quizAttempt.create({
+    data: {
+      quizId: session.quizId,
+      userId: session.userId,
+      score,
+      answers,
+      startedAt: session.startedAt,
+      timeTakenSeconds: Math.round((completedAt.getTime() - session.startedAt.getTime()) / 1000),
+      completedAt
+    }
+  })
+
+  await prisma.quizSession.update({
+    where: { id: session.id },
+    data: { finishedAt: completedAt, attemptId: attempt.id }
+  })
+  await recordQuizResult(userId, session.quiz.topic, score)
+
+  return {
+    success: true,
+    attemptId: attempt.id,
+    score,
+    correctCount,
+    questionCount: questions.length,
+    message: `Quiz finished: ${correctCount} of ${questions.length} correct (${score}%) on ${session.quiz.topic}.`
+  }
+}
 
+async function extractFlashcardsFromContent(content: string, topic: string, count: number) {
+  // Use the configured LLM to intelligently extract Q&A pairs
   const prompt = `Extract ${count} flashcard question-answer pairs from the following content about ${topic}.
 
 Content:
@@ -471,64 +509,82 @@ Return a JSON array of flashcards with this structure:
 
 Make the questions clear and specific. Answers should be concise but complete.`
 
-  const response = await client.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const result = await chatJSON<{ flashcards?: Array<{ front: string; back: string; difficulty?: string }> }>({
     messages: [
       { role: 'system', content: 'You are a study assistant that creates effective flashcards.' },
       { role: 'user', content: prompt }
     ],
-    response_format: { type: 'json_object' }
-  })
+    task: { name: 'flashcards', input: { content, topic, count } }
+  }, { flashcards: [] })
 
-  const result = JSON.parse(response.choices[0].message.content || '{"flashcards":[]}')
   return result.flashcards || []
 }
 
 // Helper function to generate quiz questions using AI
-async function generateQuizQuestions(topic: string, count: number, difficulty: string) {
-  const openai = await import('openai')
-  const client = new openai.default({ apiKey: process.env.OPENAI_API_KEY })
-
+async function generateQuizQuestions(
+  topic: string,
+  count: number,
+  difficulty: string,
+  questionTypes: QuestionType[]
+): Promise<Question[]> {
   const difficultyGuidelines = {
     easy: 'Basic recall and understanding questions. Simple, straightforward answers.',
     medium: 'Application and analysis questions. Requires understanding concepts and applying them.',
     hard: 'Complex synthesis and evaluation questions. Requires deep understanding and critical thinking.'
   }
 
-  const prompt = `Generate ${count} multiple-choice quiz questions about ${topic} at ${difficulty} difficulty level.
+  const prompt = `Generate ${count} quiz questions about ${topic} at ${difficulty} difficulty level.
 
 Difficulty guidelines: ${difficultyGuidelines[difficulty as keyof typeof difficultyGuidelines]}
 
-Return a JSON object with a "questions" array. Each question should have this structure:
-{
-  "questions": [
-    {
-      "id": "q1",
-      "question": "The question text",
-      "options": ["Option A", "Option B", "Option C", "Option D"],
-      "correctAnswer": 0,
-      "explanation": "Why this answer is correct"
-    }
-  ]
-}
+Spread the questions evenly across these question types:
+${questionTypes.map(type => `- ${questionTypePrompts[type]}`).join('\n')}
+
+Return a JSON object with a "questions" array of objects in the shapes above.
 
 Make sure:
 - Questions are clear and specific to ${topic}
-- All 4 options are plausible but only one is correct
-- correctAnswer is the index (0-3) of the correct option
+- Every question has the "type" field set to one of: ${questionTypes.join(', ')}
+- Wrong options are plausible, and correct answers are unambiguous
 - Explanations are educational and help learning`
 
-  const response = await client.chat.completions.create({
-    model: 'gpt-4o-mini',
+  const result = await chatJSON<{ questions?: unknown[] }>({
     messages: [
       { role: 'system', content: 'You are an expert educator creating high-quality quiz questions.' },
       { role: 'user', content: prompt }
     ],
-    response_format: { type: 'json_object' }
+    task: { name: 'quiz_questions', input: { topic, count, difficulty, questionTypes } }
+  }, { questions: [] })
+
+  // Drop questions the model got wrong rather than storing ungradable ones
+  return (result.questions || [])
+    .flatMap(question => {
+      const parsed = questionSchema.safeParse(question)
+      return parsed.success && questionTypes.includes(parsed.data.type) ? [parsed.data] : []
+    })
+    .map((question, i) => ({ ...question, id: `q${i + 1}` }))
+}
+
+async function findActiveQuizSession(userId: string, quizSessionId?: string) {
+  return prisma.quizSession.findFirst({
+    where: { id: quizSessionId, userId, finishedAt: null },
+    include: { quiz: true },
+    orderBy: { startedAt: 'desc' }
   })
+}
 
-  const result = JSON.parse(response.choices[0].message.content || '{"questions":[]}')
-  return result.questions || []
+function sessionAnswers(answers: unknown): AttemptAnswer[] {
+  return Array.isArray(answers) ? answers as AttemptAnswer[] : []
+}
+
+// What the tutor sees of a question: never the answer
+function presentQuestion(questions: Question[], index: number) {
+  return {
+    number: index + 1,
+    of: questions.length,
+    type: questions[index].type,
+    text: describeQuestion(questions[index])
+  }
 }
 
 async function updateGoalProgress(userId: string, subject: string, hours: number) {
@@ -552,26 +608,147 @@ async function updateGoalProgress(userId: string, subject: string, hours: number
   }
 }
 
-// Export a handler to route function calls
-export async function handleFunctionCall(name: string, args: any) {
-  switch (name) {
-    case 'create_quiz':
-      return await createQuiz(args)
-    case 'log_study_session':
-      return await logStudySession(args)
-    case 'get_study_progress':
-      return await getStudyProgress(args)
-    case 'set_study_goal':
-      return await setStudyGoal(args)
-    case 'get_quiz_history':
-      return await getQuizHistory(args)
-    case 'recommend_review_topics':
-      return await recommendReviewTopics(args)
-    case 'search_learning_resources':
-      return await searchLearningResources(args)
-    case 'generate_flashcards':
-      return await generateFlashcards(args)
-    default:
-      throw new Error(`Unknown function: ${name}`)
+// Structured error returned to the model so it can correct its call and retry
+function invalidArguments(name: string, error: z.ZodError) {
+  return {
+    success: false,
+    error: `Invalid arguments for ${name}`,
+    issues: error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message
+    }))
+  }
+}
+
+// Implementations for every tool in the registry
+const toolHandlers: { [K in ToolName]: (args: ToolArgs<K>) => Promise<unknown> } = {
+  create_quiz: createQuiz,
+  log_study_session: logStudySession,
+  get_study_progress: getStudyProgress,
+  set_study_goal: setStudyGoal,
+  get_quiz_history: getQuizHistory,
+  recommend_review_topics: recommendReviewTopics,
+  search_learning_resources: searchLearningResources,
+  generate_flashcards: generateFlashcards,
+  start_quiz: startQuiz,
+  answer_quiz_question: answerQuizQuestion,
+  finish_quiz: finishQuiz
+}
+
+// Carries the validated arguments of a call whose handler threw
+class ToolCallError extends Error {
+  constructor(readonly args: Record<string, unknown>, readonly cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause))
+  }
+}
+
+// Runs a call, returning the arguments as validated (or as received, when the
+// call was rejected before validation passed) alongside the result
+async function runFunctionCall(
+  name: string,
+  args: Record<string, unknown>,
+  { userId, conversationId }: ToolContext
+): Promise<{ args: Record<string, unknown>; result: unknown }> {
+  const tool = getTool(name)
+  if (!tool) {
+    return {
+      args,
+      result: {
+        success: false,
+        error: `Unknown function: ${name}. Available functions: ${Object.keys(tools).join(', ')}`
+      }
+    }
+  }
+
+  if (tool.requiresAuth && !userId) {
+    return { args, result: { success: false, error: `You must be signed in to use ${name}` } }
+  }
+
+  const parsed = tool.parameters.safeParse(args)
+  if (!parsed.success) {
+    return { args, result: invalidArguments(name, parsed.error) }
+  }
+
+  if (tool.generates && userId) {
+    const quota = await consume('generatedItems', userId, Number(parsed.data[tool.generates]) || 1)
+    if (!quota.allowed) {
+      return {
+        args: parsed.data,
+        result: {
+          success: false,
+          error: `Daily limit reached: ${quota.remaining} of ${quota.limit} generated quiz questions and flashcards left today. It resets ${formatRetryAfter(quota.retryAfterSeconds)}.`
+        }
+      }
+    }
+  }
+
+  const handler = toolHandlers[name as ToolName] as (args: Record<string, unknown>) => Promise<unknown>
+  try {
+    return { args: parsed.data, result: await handler({ ...parsed.data, userId, conversationId }) }
+  } catch (error) {
+    throw new ToolCallError(parsed.data, error)
+  }
+}
+
+// The error message of a result the tool returned as a failure
+function failureMessage(result: unknown): string | null {
+  if (typeof result !== 'object' || result === null || !('success' in result) || result.success !== false) {
+    return null
+  }
+  return 'error' in result && typeof result.error === 'string' ? result.error : 'Failed'
+}
+
+// Dates and the like become their JSON form, as the client would see them
+function toJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  return value === undefined ? Prisma.JsonNull : JSON.parse(JSON.stringify(value))
+}
+
+async function recordInvocation(
+  name: string,
+  context: ToolContext,
+  entry: { args: Record<string, unknown>; result?: unknown; error: string | null; durationMs: number }
+) {
+  try {
+    await prisma.toolInvocation.create({
+      data: {
+        userId: context.userId ?? null,
+        conversationId: context.conversationId ?? null,
+        toolName: name,
+        arguments: toJson(entry.args),
+        result: toJson(entry.result),
+        error: entry.error,
+        durationMs: entry.durationMs,
+        source: context.source ?? 'api'
+      }
+    })
+  } catch (error) {
+    // The activity log is best effort; never fail the call over it
+    console.error('Error recording tool invocation:', error)
+  }
+}
+
+// Export a handler to route function calls. Failures the model can act on
+// (unknown tool, missing auth, invalid arguments) are returned, not thrown.
+// Every call is recorded in the conversation's activity log.
+export async function handleFunctionCall(name: string, args: Record<string, unknown>, context: ToolContext) {
+  const startedAt = Date.now()
+
+  try {
+    const call = await runFunctionCall(name, args, context)
+    await recordInvocation(name, context, {
+      args: call.args,
+      result: call.result,
+      error: failureMessage(call.result),
+      durationMs: Date.now() - startedAt
+    })
+    return call.result
+  } catch (error) {
+    const toolError = error instanceof ToolCallError ? error : null
+    await recordInvocation(name, context, {
+      args: toolError?.args ?? args,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt
+    })
+    throw toolError?.cause ?? error
   }
 }
@@ -0,0 +1,92 @@
+import { chatJSON } from './llm'
+import {
+  gradeObjective,
+  isAnswered,
+  type AttemptAnswer,
+  type AttemptSubmission,
+  type GradeResult,
+  type Question,
+  type QuestionOf,
+  type QuizAnswer
+} from './quiz'
+
+// Server-side quiz grading. Objective types are graded by lib/quiz.ts;
+// short answers are graded by the model against the question's rubric.
+
+// Minimum rubric credit for a short answer to count as correct
+const SHORT_ANSWER_PASS = 0.7
+
+async function gradeShortAnswer(question: QuestionOf<'short_answer'>, answer: string): Promise<GradeResult> {
+  const prompt = `Grade a student's answer against the rubric.
+
+Question: ${question.question}
+Rubric: ${question.rubric}
+Sample full-credit answer: ${question.sampleAnswer}
+Student answer: ${answer}
+
+Return a JSON object:
+{
+  "credit": 0.5,
+  "feedback": "One or two sentences telling the student what they got right and what is missing"
+}
+
+credit is between 0 and 1: the share of rubric points the answer makes. Ignore spelling and grammar.`
+
+  const result = await chatJSON<{ credit?: number; feedback?: string }>({
+    messages: [
+      { role: 'system', content: 'You are a fair, encouraging teacher grading short answers.' },
+      { role: 'user', content: prompt }
+    ],
+    task: {
+      name: 'grade_short_answer',
+      input: { question: question.question, rubric: question.rubric, sampleAnswer: question.sampleAnswer, answer }
+    }
+  }, {})
+
+  const credit = Math.min(1, Math.max(0, Number(result.credit) || 0))
+  return { correct: credit >= SHORT_ANSWER_PASS, credit, feedback: result.feedback }
+}
+
+export async function gradeAnswer(question: Question, answer: QuizAnswer | undefined): Promise<GradeResult> {
+  if (!isAnswered(question, answer)) {
+    return { correct: false, credit: 0 }
+  }
+
+  if (question.type === 'short_answer') {
+    return gradeShortAnswer(question, answer as string)
+  }
+
+  return gradeObjective(question, answer as QuizAnswer)
+}
+
+// How many model calls grading will make: one per answered short answer. They
+// count against the completions quota.
+export function modelGradedCount(questions: Question[], submitted: AttemptSubmission['answers']): number {
+  const submittedById = new Map(submitted.map(entry => [entry.questionId, entry]))
+  return questions.filter(question =>
+    question.type === 'short_answer' && isAnswered(question, submittedById.get(question.id)?.answer)
+  ).length
+}
+
+// Grade a validated submission. Returns one row per question (skipped ones
+// score zero) and the score as the percentage of credit earned.
+export async function gradeQuiz(questions: Question[], submitted: AttemptSubmission['answers']) {
+  const submittedById = new Map(submitted.map(entry => [entry.questionId, entry]))
+
+  const answers: AttemptAnswer[] = await Promise.all(
+    questions.map(async (question) => {
+      const entry = submittedById.get(question.id)
+      return {
+        questionId: question.id,
+        answer: entry?.answer ?? null,
+        timeTakenSeconds: entry?.timeTakenSeconds,
+        ...await gradeAnswer(question, entry?.answer)
+      }
+    })
+  )
+
+  const earned = answers.reduce((sum, answer) => sum + answer.credit, 0)
+  const score = questions.length > 0 ? Math.round(earned / questions.length * 100) : 0
+
+  return { answers, score }
+}
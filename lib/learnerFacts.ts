@@ -0,0 +1,30 @@
+import { z } from 'zod'
+
+// Kinds of learner facts and their validation. Client-safe: extracting,
+// storing and prompting with them live in lib/learnerProfile.ts.
+
+export const LEARNER_FACT_KINDS = {
+  grade_level: 'Grade level',
+  explanation_style: 'Preferred explanation style',
+  subject: 'Studies',
+  weak_topic: 'Finds hard',
+  strong_topic: 'Is strong at',
+  upcoming_exam: 'Upcoming exam',
+  goal: 'Goal',
+  other: 'Note'
+} as const
+
+export type LearnerFactKind = keyof typeof LEARNER_FACT_KINDS
+
+export const learnerFactKinds = Object.keys(LEARNER_FACT_KINDS) as LearnerFactKind[]
+
+// Kinds with one current value, replaced rather than added to
+export const SINGLE_VALUE_KINDS: LearnerFactKind[] = ['grade_level', 'explanation_style']
+
+export const learnerFactSchema = z.object({
+  kind: z.enum(learnerFactKinds),
+  content: z.string().trim().min(1, 'Content is required').max(200, 'Content must be at most 200 characters'),
+  expiresAt: z.coerce.date().nullable().optional()
+})
+
+export type LearnerFactInput = z.output<typeof learnerFactSchema>
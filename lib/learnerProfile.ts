@@ -0,0 +1,184 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { chatJSON } from './llm'
+import { consume } from './ratelimit'
+import {
+  LEARNER_FACT_KINDS,
+  SINGLE_VALUE_KINDS,
+  learnerFactSchema,
+  type LearnerFactInput
+} from './learnerFacts'
+
+// What the tutor remembers about a student across conversations. Facts are
+// read from their chats a few messages at a time, and recorded from quiz
+// scores, study sessions and goals. They go into the system prompt of the text
+// chat and of voice sessions.
+
+export type LearnerFactSource = 'conversation' | 'quiz' | 'study' | 'user'
+
+// Facts included in prompts, most recently updated first
+const MAX_PROMPT_FACTS = 30
+
+// New student messages a conversation needs before it's read for facts
+const EXTRACTION_BATCH = 3
+const MAX_EXTRACTION_CHARS = 6000
+
+// Quiz scores below WEAK_BELOW mark the topic as hard, and from STRONG_FROM as a strength
+const WEAK_BELOW = 70
+const STRONG_FROM = 90
+
+// Facts whose date hasn't passed
+function activeFacts(userId: string): Prisma.LearnerFactWhereInput {
+  return { userId, OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }
+}
+
+export async function listLearnerFacts(userId: string) {
+  return prisma.learnerFact.findMany({
+    where: { userId },
+    orderBy: [{ kind: 'asc' }, { updatedAt: 'desc' }]
+  })
+}
+
+// Adds the fact, or refreshes it if already known. Single-value kinds replace
+// the previous value, except one the student set themselves.
+export async function saveLearnerFact(userId: string, fact: LearnerFactInput, source: LearnerFactSource) {
+  if (SINGLE_VALUE_KINDS.includes(fact.kind)) {
+    if (source !== 'user') {
+      const own = await prisma.learnerFact.findFirst({
+        where: { userId, kind: fact.kind, source: 'user', content: { not: fact.content } },
+        select: { id: true }
+      })
+      if (own) return null
+    }
+
+    await prisma.learnerFact.deleteMany({
+      where: { userId, kind: fact.kind, content: { not: fact.content } }
+    })
+  }
+
+  return prisma.learnerFact.upsert({
+    where: { userId_kind_content: { userId, kind: fact.kind, content: fact.content } },
+    create: { userId, ...fact, source },
+    update: { expiresAt: fact.expiresAt, updatedAt: new Date() }
+  })
+}
+
+// The student's own edit, which automatic updates won't replace
+export async function updateLearnerFact(userId: string, factId: string, fact: LearnerFactInput) {
+  if (SINGLE_VALUE_KINDS.includes(fact.kind)) {
+    await prisma.learnerFact.deleteMany({
+      where: { userId, kind: fact.kind, id: { not: factId } }
+    })
+  }
+
+  return prisma.learnerFact.update({
+    where: { id: factId },
+    data: { ...fact, source: 'user' }
+  })
+}
+
+// A quiz score below WEAK_BELOW or from STRONG_FROM updates whether the topic is hard for them
+export async function recordQuizResult(userId: string, topic: string, score: number) {
+  const content = topic.trim().slice(0, 200)
+  if (!content) return
+
+  if (score < WEAK_BELOW) {
+    await saveLearnerFact(userId, { kind: 'weak_topic', content }, 'quiz')
+    await prisma.learnerFact.deleteMany({ where: { userId, kind: 'strong_topic', content } })
+  } else if (score >= STRONG_FROM) {
+    await saveLearnerFact(userId, { kind: 'strong_topic', content }, 'quiz')
+    await prisma.learnerFact.deleteMany({ where: { userId, kind: 'weak_topic', content } })
+  }
+}
+
+// The system prompt section describing the student, or null when nothing is known
+export async function learnerProfilePrompt(userId: string): Promise<string | null> {
+  const facts = await prisma.learnerFact.findMany({
+    where: activeFacts(userId),
+    orderBy: { updatedAt: 'desc' },
+    take: MAX_PROMPT_FACTS
+  })
+
+  if (facts.length === 0) return null
+
+  const lines = facts.map(fact => {
+    const label = LEARNER_FACT_KINDS[fact.kind as keyof typeof LEARNER_FACT_KINDS] ?? 'Note'
+    const until = fact.expiresAt ? ` (${fact.expiresAt.toISOString().slice(0, 10)})` : ''
+    return `- ${label}: ${fact.content}${until}`
+  })
+
+  return `What you know about this student from earlier sessions (use it to tailor your help, and don't recite it back):
+${lines.join('\n')}`
+}
+
+// Reads the conversation's messages since the last time for new facts, once
+// the student has sent EXTRACTION_BATCH of them. Returns how many were saved.
+// Waits for the next batch when the user's completions quota is used up.
+export async function extractLearnerFacts(userId: string, conversationId: string): Promise<number> {
+  const { factsThrough } = await prisma.conversation.findUniqueOrThrow({
+    where: { id: conversationId },
+    select: { factsThrough: true }
+  })
+
+  const messages = await prisma.message.findMany({
+    where: {
+      conversationId,
+      role: { in: ['user', 'assistant'] },
+      content: { not: '' },
+      createdAt: factsThrough ? { gt: factsThrough } : undefined
+    },
+    select: { role: true, content: true, createdAt: true },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  if (messages.filter(m => m.role === 'user').length < EXTRACTION_BATCH) return 0
+  if (!(await consume('completions', userId)).allowed) return 0
+
+  const known = await prisma.learnerFact.findMany({
+    where: activeFacts(userId),
+    select: { kind: true, content: true }
+  })
+
+  const transcript = messages
+    .map(m => `${m.role === 'user' ? 'Student' : 'Tutor'}: ${m.content}`)
+    .join('\n\n')
+    .slice(-MAX_EXTRACTION_CHARS)
+
+  const prompt = `Already known about the student:
+${known.map(f => `- ${f.kind}: ${f.content}`).join('\n') || '(nothing yet)'}
+
+Recent conversation:
+${transcript}
+
+Return a JSON object with anything new or changed that the student said or clearly showed about themselves:
+{
+  "facts": [
+    { "kind": "upcoming_exam", "content": "AP Calculus exam", "expiresAt": "2026-05-12" }
+  ]
+}
+
+kind is one of: ${Object.keys(LEARNER_FACT_KINDS).join(', ')}. Keep content under 15 words. Set expiresAt (YYYY-MM-DD) only for exams and goals with a known date. Return an empty list when there is nothing new.`
+
+  const result = await chatJSON<{ facts?: unknown }>({
+    messages: [
+      { role: 'system', content: 'You keep a tutor\'s notes on a student: their level, needs and plans. Never guess.' },
+      { role: 'user', content: prompt }
+    ],
+    task: { name: 'learner_facts', input: { transcript } }
+  }, {})
+
+  let saved = 0
+  for (const candidate of Array.isArray(result.facts) ? result.facts : []) {
+    const parsed = learnerFactSchema.safeParse(candidate)
+    if (parsed.success && await saveLearnerFact(userId, parsed.data, 'conversation')) {
+      saved++
+    }
+  }
+
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { factsThrough: messages[messages.length - 1].createdAt }
+  })
+
+  return saved
+}
@@ -0,0 +1,51 @@
+import { OpenAIProvider } from './openai'
+import { LocalProvider } from './local'
+import type { LLMChatOptions, LLMProvider } from './types'
+
+export type * from './types'
+
+const DEFAULT_MODEL = 'gpt-4o-mini'
+
+let provider: LLMProvider | null = null
+
+// Select the provider with LLM_PROVIDER ('openai' | 'local'). Defaults to
+// OpenAI when a key is configured, otherwise - outside production only - the
+// offline local provider. A production deploy that lost its key should fail
+// loudly, not start answering students with canned replies.
+export function getLLM(): LLMProvider {
+  if (provider) return provider
+
+  const name = process.env.LLM_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : defaultProvider())
+
+  switch (name) {
+    case 'openai':
+      provider = new OpenAIProvider(process.env.LLM_MODEL || DEFAULT_MODEL)
+      break
+    case 'local':
+      provider = new LocalProvider()
+      break
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`)
+  }
+
+  return provider
+}
+
+function defaultProvider(): string {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('No LLM provider configured: set OPENAI_API_KEY, or LLM_PROVIDER="local" to use the offline provider')
+  }
+  return 'local'
+}
+
+// Run a JSON-mode completion and parse the result, falling back when the
+// model returns nothing usable
+export async function chatJSON<T>(options: Omit<LLMChatOptions, 'responseFormat'>, fallback: T): Promise<T> {
+  const result = await getLLM().chat({ ...options, responseFormat: 'json' })
+
+  try {
+    return result.content ? JSON.parse(result.content) : fallback
+  } catch {
+    return fallback
+  }
+}
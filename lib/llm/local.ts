@@ -0,0 +1,341 @@
+import { readFileSync } from 'fs'
+import type { LLMChatOptions, LLMChatResult, LLMMessage, LLMProvider, LLMStreamEvent, LLMToolCall } from './types'
+
+// Deterministic offline provider. Produces the same output for the same input,
+// so the app (including tool calling) can run on laptops and CI without a key.
+
+interface ChatFixture {
+  match: string // Regex tested against the latest user message
+  reply?: string
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>
+}
+
+interface FixtureFile {
+  chat?: ChatFixture[]
+  tasks?: Record<string, unknown>
+}
+
+type TaskFixture = (input: Record<string, unknown>) => unknown
+
+const difficulties = ['easy', 'medium', 'hard']
+
+// Built-in JSON fixtures keyed by LLMTask name
+export const taskFixtures: Record<string, TaskFixture> = {
+  quiz_questions: (input) => {
+    const topic = String(input.topic)
+    const count = Number(input.count) || 5
+    const difficulty = String(input.difficulty)
+    const types = Array.isArray(input.questionTypes) && input.questionTypes.length > 0
+      ? input.questionTypes.map(String)
+      : ['multiple_choice']
+
+    return {
+      questions: Array.from({ length: count }, (_, i) => {
+        const n = i + 1
+        const base = {
+          id: `q${n}`,
+          explanation: `Item #${n} is the one that describes ${topic} correctly.`
+        }
+
+        switch (types[i % types.length]) {
+          case 'true_false':
+            return { ...base, type: 'true_false', question: `(${difficulty}) Statement #${n} about ${topic} is accurate.`, correctAnswer: n % 2 === 1 }
+          case 'multi_select':
+            return {
+              ...base,
+              type: 'multi_select',
+              question: `(${difficulty}) Which statements about ${topic} are accurate? Select all that apply. #${n}`,
+              options: [1, 2, 3, 4].map(k => k % 2 === 1 ? `Accurate statement ${k} about ${topic}` : `Unrelated claim ${k} about ${topic}`),
+              correctAnswers: [0, 2]
+            }
+          case 'numeric':
+            return { ...base, type: 'numeric', question: `(${difficulty}) What is ${n} multiplied by 12.5 in ${topic} units?`, correctAnswer: n * 12.5, tolerance: 0.1, unit: 'units' }
+          case 'cloze':
+            return { ...base, type: 'cloze', question: `(${difficulty}) In ${topic}, the key term #${n} is ___.`, blanks: [[`term${n}`, `term ${n}`]] }
+          case 'short_answer':
+            return {
+              ...base,
+              type: 'short_answer',
+              question: `(${difficulty}) Explain idea #${n} of ${topic} in your own words.`,
+              rubric: `Names idea #${n} of ${topic}; explains why it matters`,
+              sampleAnswer: `Idea ${n} of ${topic} matters because it explains how the topic works`
+            }
+          default: {
+            const correctAnswer = i % 4
+            const options = [1, 2, 3].map(k => `An unrelated claim about ${topic} (${k})`)
+            options.splice(correctAnswer, 0, `The accurate statement about ${topic} #${n}`)
+
+            return {
+              ...base,
+              type: 'multiple_choice',
+              question: `(${difficulty}) Which statement about ${topic} is accurate? #${n}`,
+              options,
+              correctAnswer
+            }
+          }
+        }
+      })
+    }
+  },
+  // Credit is the share of the sample answer's key words found in the student answer
+  grade_short_answer: (input) => {
+    const words = (text: unknown) => new Set(String(text).toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? [])
+    const expected = words(input.sampleAnswer)
+    const given = words(input.answer)
+    const hits = [...expected].filter(word => given.has(word)).length
+    const credit = expected.size > 0 ? Math.round(hits / expected.size * 100) / 100 : 0
+
+    return {
+      credit,
+      feedback: credit >= 0.7
+        ? 'Your answer covers the key points.'
+        : `Your answer is missing key points. Compare it with: ${String(input.sampleAnswer)}`
+    }
+  },
+  // Titled after the first message's topic, or its opening words
+  conversation_title: (input) => {
+    const text = String(input.firstMessage).trim()
+    const topic = extractTopic(text)
+    const title = topic === 'General' ? text.split(/\s+/).slice(0, 6).join(' ') : topic
+
+    return {
+      title: title.charAt(0).toUpperCase() + title.slice(1),
+      subject: null,
+      topics: topic === 'General' ? [] : [topic.toLowerCase()]
+    }
+  },
+  // The previous summary plus the first sentence of each new turn, capped
+  conversation_summary: (input) => {
+    const previous = input.summary ? String(input.summary) : ''
+    const points = String(input.transcript)
+      .split(/\n\n+/)
+      .map(turn => turn.split(/(?<=[.!?])\s+/)[0])
+
+    return { summary: [previous, ...points].filter(Boolean).join(' ').slice(-1500) }
+  },
+  // Grade levels and self-described struggles in the student's own messages
+  learner_facts: (input) => {
+    const said = String(input.transcript)
+      .split(/\n\n+/)
+      .filter(turn => turn.startsWith('Student: '))
+      .join(' ')
+    const facts: Array<{ kind: string; content: string }> = []
+
+    const grade = said.match(/\b(\d{1,2})(?:st|nd|rd|th) grade\b|\bgrade (\d{1,2})\b/i)
+    if (grade) facts.push({ kind: 'grade_level', content: `Grade ${grade[1] || grade[2]}` })
+
+    for (const [, topic] of said.matchAll(/\b(?:struggle|struggling) with ([^.?!,]+)/gi)) {
+      facts.push({ kind: 'weak_topic', content: topic.trim() })
+    }
+
+    return { facts }
+  },
+  flashcards: (input) => {
+    const topic = String(input.topic)
+    const count = Number(input.count) || 5
+    const sentences = String(input.content)
+      .split(/(?<=[.!?])\s+|\n+/)
+      .map(s => s.trim())
+      .filter(Boolean)
+
+    return {
+      flashcards: sentences.slice(0, count).map((sentence, i) => ({
+        front: `${topic}: key point ${i + 1}?`,
+        back: sentence,
+        difficulty: difficulties[i % difficulties.length]
+      }))
+    }
+  }
+}
+
+// Keyword rules used to pick a tool for the latest user message
+const toolRules: Array<{ pattern: RegExp; tool: string; args: (text: string) => Record<string, unknown> }> = [
+  {
+    pattern: /flash ?cards?/i,
+    tool: 'generate_flashcards',
+    args: (text) => ({ topic: extractTopic(text), content: text, count: 5 })
+  },
+  {
+    pattern: /^\s*(?:my )?answer(?: is)?\b/i,
+    tool: 'answer_quiz_question',
+    args: (text) => ({ answer: text.replace(/^\s*(?:my )?answer(?: is)?[:\s]*/i, '') || text })
+  },
+  {
+    pattern: /\b(finish|end|stop)\b.*\bquiz\b/i,
+    tool: 'finish_quiz',
+    args: () => ({})
+  },
+  {
+    pattern: /\bquiz me\b|\bstart\b.*\bquiz\b/i,
+    tool: 'start_quiz',
+    args: (text) => {
+      const topic = extractTopic(text)
+      return topic === 'General' ? {} : { topic }
+    }
+  },
+  {
+    pattern: /\bquiz\b/i,
+    tool: 'create_quiz',
+    args: (text) => ({
+      subject: extractTopic(text),
+      topic: extractTopic(text),
+      questionCount: 5,
+      difficulty: /\bhard\b/i.test(text) ? 'hard' : /\beasy\b/i.test(text) ? 'easy' : 'medium'
+    })
+  },
+  {
+    pattern: /\blog\b.*\d+\s*(min|minute|hour)/i,
+    tool: 'log_study_session',
+    args: (text) => {
+      const [, amount, unit] = text.match(/(\d+)\s*(min|minute|hour)/i)!
+      return {
+        subject: extractTopic(text),
+        duration: unit.toLowerCase() === 'hour' ? Number(amount) * 60 : Number(amount)
+      }
+    }
+  },
+  {
+    pattern: /\bgoal\b/i,
+    tool: 'set_study_goal',
+    args: (text) => ({
+      subject: extractTopic(text),
+      targetHours: Number(text.match(/(\d+)\s*hours?/i)?.[1] || 5),
+      deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
+    })
+  },
+  {
+    pattern: /\bprogress\b/i,
+    tool: 'get_study_progress',
+    args: () => ({ days: 30 })
+  },
+  {
+    pattern: /\b(history|scores?)\b/i,
+    tool: 'get_quiz_history',
+    args: () => ({ limit: 10 })
+  },
+  {
+    pattern: /\breview\b/i,
+    tool: 'recommend_review_topics',
+    args: () => ({})
+  },
+  {
+    pattern: /\b(resources?|videos?|articles?)\b/i,
+    tool: 'search_learning_resources',
+    args: (text) => ({ topic: extractTopic(text), resourceType: 'any' })
+  }
+]
+
+function extractTopic(text: string): string {
+  const match = text.match(/\b(?:on|about|for|of)\s+([^.?!,]+)/i)
+  return match ? match[1].trim() : 'General'
+}
+
+function loadFixtureFile(): FixtureFile {
+  const path = process.env.LLM_FIXTURES_PATH
+  if (!path) return {}
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'))
+  } catch (error) {
+    console.error('Failed to load LLM fixtures:', error)
+    return {}
+  }
+}
+
+export class LocalProvider implements LLMProvider {
+  name = 'local'
+  private fixtures = loadFixtureFile()
+
+  async chat(options: LLMChatOptions): Promise<LLMChatResult> {
+    if (options.task) {
+      return { content: JSON.stringify(this.runTask(options.task.name, options.task.input)), toolCalls: [] }
+    }
+
+    if (options.responseFormat === 'json') {
+      return { content: '{}', toolCalls: [] }
+    }
+
+    const last = options.messages[options.messages.length - 1]
+
+    // After tools have run, answer from their results instead of calling again
+    if (last?.role === 'tool') {
+      return { content: summarizeToolResults(options.messages), toolCalls: [] }
+    }
+
+    const text = lastUserText(options.messages)
+    const available = new Set((options.tools || []).map(t => t.name))
+
+    for (const fixture of this.fixtures.chat || []) {
+      if (new RegExp(fixture.match, 'i').test(text)) {
+        return {
+          content: fixture.reply ?? null,
+          toolCalls: (fixture.toolCalls || [])
+            .filter(tc => available.has(tc.name))
+            .map((tc, i) => toolCall(options.messages.length, i, tc.name, tc.arguments))
+        }
+      }
+    }
+
+    const rule = toolRules.find(r => available.has(r.tool) && r.pattern.test(text))
+    if (rule) {
+      return { content: null, toolCalls: [toolCall(options.messages.length, 0, rule.tool, rule.args(text))] }
+    }
+
+    return {
+      content: `I'm running in offline mode, so my answers are canned. You asked: "${text}"`,
+      toolCalls: []
+    }
+  }
+
+  async *stream(options: LLMChatOptions): AsyncIterable<LLMStreamEvent> {
+    const result = await this.chat(options)
+
+    // Emit word-sized deltas so streaming clients behave as they would online
+    for (const piece of result.content?.match(/\S+\s*/g) || []) {
+      yield { type: 'delta', content: piece }
+    }
+
+    yield { type: 'done', result }
+  }
+
+  private runTask(name: string, input: Record<string, unknown>): unknown {
+    if (this.fixtures.tasks && name in this.fixtures.tasks) {
+      return this.fixtures.tasks[name]
+    }
+
+    const fixture = taskFixtures[name]
+    if (!fixture) {
+      throw new Error(`No local fixture for task: ${name}`)
+    }
+
+    return fixture(input)
+  }
+}
+
+function toolCall(seed: number, index: number, name: string, args: Record<string, unknown>): LLMToolCall {
+  return { id: `call_local_${seed}_${index}`, name, arguments: JSON.stringify(args) }
+}
+
+function lastUserText(messages: LLMMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i]
+    if (message.role === 'user') return message.content
+  }
+  return ''
+}
+
+function summarizeToolResults(messages: LLMMessage[]): string {
+  const lines: string[] = []
+
+  for (let i = messages.length - 1; i >= 0 && messages[i].role === 'tool'; i--) {
+    const message = messages[i] as Extract<LLMMessage, { role: 'tool' }>
+    try {
+      const result = JSON.parse(message.content)
+      lines.unshift(typeof result?.message === 'string' ? result.message : message.content)
+    } catch {
+      lines.unshift(message.content)
+    }
+  }
+
+  return `Done! ${lines.join(' ')}`
+}
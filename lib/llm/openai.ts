@@ -0,0 +1,103 @@
+import OpenAI from 'openai'
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions'
+import type { LLMChatOptions, LLMChatResult, LLMMessage, LLMProvider, LLMStreamEvent, LLMToolCall } from './types'
+
+function toOpenAIMessage(message: LLMMessage): ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls && message.toolCalls.length > 0
+          ? {
+              tool_calls: message.toolCalls.map(tc => ({
+                id: tc.id,
+                type: 'function' as const,
+                function: { name: tc.name, arguments: tc.arguments }
+              }))
+            }
+          : {})
+      }
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content }
+    default:
+      return { role: message.role, content: message.content }
+  }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  name = 'openai'
+  private client: OpenAI
+
+  constructor(private model: string, apiKey = process.env.OPENAI_API_KEY) {
+    this.client = new OpenAI({ apiKey })
+  }
+
+  private params(options: LLMChatOptions) {
+    const hasTools = options.tools && options.tools.length > 0
+
+    return {
+      model: this.model,
+      messages: options.messages.map(toOpenAIMessage),
+      ...(hasTools
+        ? {
+            tools: options.tools!.map(tool => ({
+              type: 'function' as const,
+              function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters
+              }
+            })),
+            tool_choice: 'auto' as const
+          }
+        : {}),
+      ...(options.responseFormat === 'json'
+        ? { response_format: { type: 'json_object' as const } }
+        : {})
+    }
+  }
+
+  async chat(options: LLMChatOptions): Promise<LLMChatResult> {
+    const response = await this.client.chat.completions.create(this.params(options))
+    const message = response.choices[0].message
+
+    return {
+      content: message.content,
+      toolCalls: (message.tool_calls || [])
+        .filter(tc => tc.type === 'function')
+        .map(tc => ({
+          id: tc.id,
+          name: tc.function.name,
+          arguments: tc.function.arguments
+        }))
+    }
+  }
+
+  async *stream(options: LLMChatOptions): AsyncIterable<LLMStreamEvent> {
+    const stream = await this.client.chat.completions.create({ ...this.params(options), stream: true })
+
+    let content = ''
+    const toolCalls: LLMToolCall[] = []
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta
+      if (!delta) continue
+
+      if (delta.content) {
+        content += delta.content
+        yield { type: 'delta', content: delta.content }
+      }
+
+      // Tool calls arrive in fragments keyed by index
+      for (const fragment of delta.tool_calls || []) {
+        const toolCall = toolCalls[fragment.index] ??= { id: '', name: '', arguments: '' }
+        if (fragment.id) toolCall.id = fragment.id
+        if (fragment.function?.name) toolCall.name += fragment.function.name
+        if (fragment.function?.arguments) toolCall.arguments += fragment.function.arguments
+      }
+    }
+
+    yield { type: 'done', result: { content: content || null, toolCalls } }
+  }
+}
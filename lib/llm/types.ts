@@ -0,0 +1,48 @@
+// Provider-agnostic chat types shared by every LLM implementation
+
+export interface LLMToolCall {
+  id: string
+  name: string
+  arguments: string // Raw JSON string as produced by the model
+}
+
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string }
+
+export interface LLMTool {
+  name: string
+  description: string
+  parameters: Record<string, unknown> // JSON Schema
+}
+
+// Identifies the feature making a request so offline providers can
+// return a matching fixture instead of free-form text
+export interface LLMTask {
+  name: string
+  input: Record<string, unknown>
+}
+
+export interface LLMChatOptions {
+  messages: LLMMessage[]
+  tools?: LLMTool[]
+  responseFormat?: 'text' | 'json'
+  task?: LLMTask
+}
+
+export interface LLMChatResult {
+  content: string | null
+  toolCalls: LLMToolCall[]
+}
+
+export type LLMStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; result: LLMChatResult }
+
+export interface LLMProvider {
+  name: string
+  chat(options: LLMChatOptions): Promise<LLMChatResult>
+  // Yields text deltas as they arrive, then a single 'done' event with the full result
+  stream(options: LLMChatOptions): AsyncIterable<LLMStreamEvent>
+}
@@ -0,0 +1,45 @@
+import { SMTPTransport } from './smtp'
+import { LocalTransport } from './local'
+import type { MailMessage, MailTransport } from './types'
+
+export type * from './types'
+
+const DEFAULT_FROM = 'TutorFlow <no-reply@localhost>'
+
+let transport: MailTransport | null = null
+
+// Select the transport with MAIL_TRANSPORT ('smtp' | 'local'). Defaults to SMTP
+// when a host is configured, otherwise the local transport that logs messages.
+// That is for development only: its log would put every reset and
+// verification link in production server logs.
+export function getMailer(): MailTransport {
+  if (transport) return transport
+
+  const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'local')
+
+  switch (name) {
+    case 'smtp':
+      transport = new SMTPTransport({
+        host: process.env.SMTP_HOST || 'localhost',
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD
+      })
+      break
+    case 'local':
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('No mail transport configured: set SMTP_HOST (the local transport is for development only)')
+      }
+      transport = new LocalTransport(process.env.MAIL_OUTBOX_PATH)
+      break
+    default:
+      throw new Error(`Unknown mail transport: ${name}`)
+  }
+
+  return transport
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailer().send({ ...message, from: process.env.MAIL_FROM || DEFAULT_FROM })
+}
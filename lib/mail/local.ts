@@ -0,0 +1,24 @@
+import { appendFile, mkdir } from 'fs/promises'
+import { dirname } from 'path'
+import type { MailMessage, MailTransport } from './types'
+
+// Development/test transport: prints each message to the console and, when
+// MAIL_OUTBOX_PATH is set, appends it to that file as one JSON line so tests
+// can read the links out of it
+export class LocalTransport implements MailTransport {
+  name = 'local'
+
+  constructor(private outboxPath?: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`)
+
+    if (this.outboxPath) {
+      await mkdir(dirname(this.outboxPath), { recursive: true })
+      await appendFile(
+        this.outboxPath,
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }) + '\n'
+      )
+    }
+  }
+}
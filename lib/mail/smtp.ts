@@ -0,0 +1,225 @@
+import { connect as connectTcp, type Socket } from 'net'
+import { connect as connectTls } from 'tls'
+import { randomBytes } from 'crypto'
+import { hostname } from 'os'
+import type { MailMessage, MailTransport } from './types'
+
+const TIMEOUT_MS = 30 * 1000
+
+export interface SMTPOptions {
+  host: string
+  port: number
+  secure: boolean // TLS from the first byte (usually port 465); otherwise STARTTLS when offered
+  user?: string // Credentials are only sent over TLS
+  password?: string
+}
+
+type SMTPResponse = { code: number; lines: string[] }
+
+// Extracts the bare address from "Name <address>" and refuses anything that
+// could smuggle extra SMTP commands or headers
+function address(value: string): string {
+  const match = value.match(/<([^>]*)>/)
+  const bare = (match ? match[1] : value).trim()
+  if (!bare || /[\r\n]/.test(value) || /[<>\s]/.test(bare)) {
+    throw new Error(`Invalid email address: ${value}`)
+  }
+  return bare
+}
+
+function header(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, ' ')
+  // RFC 2047 encoded-word for anything outside printable ASCII
+  return /^[\x20-\x7e]*$/.test(clean)
+    ? clean
+    : `=?UTF-8?B?${Buffer.from(clean).toString('base64')}?=`
+}
+
+function base64Body(content: string): string {
+  return Buffer.from(content).toString('base64').replace(/.{1,76}/g, '$&\r\n')
+}
+
+function formatMessage(message: MailMessage & { from: string }): string {
+  const domain = address(message.from).split('@')[1] || 'localhost'
+  const headers = [
+    `From: ${header(message.from)}`,
+    `To: ${address(message.to)}`,
+    `Subject: ${header(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0'
+  ]
+
+  // Base64 bodies never contain a line starting with '.', so no dot-stuffing is needed
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Body(message.text)
+    ].join('\r\n')
+  }
+
+  const boundary = `tutorflow-${randomBytes(12).toString('hex')}`
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`
+  ].join('\r\n')
+}
+
+// One SMTP conversation: sends commands and reads the (possibly multi-line)
+// reply to each
+class SMTPConnection {
+  private buffer = ''
+  private pending: { resolve: (response: SMTPResponse) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  private constructor(private socket: Socket, private host: string, public encrypted: boolean) {
+    this.listen()
+  }
+
+  static async open(options: SMTPOptions): Promise<SMTPConnection> {
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const socket = options.secure
+        ? connectTls({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+        : connectTcp({ host: options.host, port: options.port }, () => resolve(socket))
+      socket.once('error', reject)
+    })
+
+    const connection = new SMTPConnection(socket, options.host, options.secure)
+    await connection.expect(220)
+    return connection
+  }
+
+  private listen() {
+    this.socket.setTimeout(TIMEOUT_MS)
+    this.socket.setEncoding('utf8')
+    this.socket.on('data', (chunk: string) => {
+      this.buffer += chunk
+      this.flush()
+    })
+    this.socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')))
+    this.socket.on('error', error => this.fail(error))
+    this.socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error
+    this.pending?.reject(error)
+    this.pending = null
+  }
+
+  // Resolves the waiting reader once a final reply line ("250 ok", not "250-...")
+  // has arrived in full, CRLF included
+  private flush() {
+    if (!this.pending) return
+
+    const lines = this.buffer.split('\r\n')
+    // The text after the last CRLF is a partial line still on its way
+    const last = lines.slice(0, -1).findIndex(line => /^\d{3}(?: |$)/.test(line))
+    if (last === -1) return
+
+    this.buffer = lines.slice(last + 1).join('\r\n')
+    const reply = lines.slice(0, last + 1)
+    this.pending.resolve({ code: Number(reply[last].slice(0, 3)), lines: reply.map(line => line.slice(4)) })
+    this.pending = null
+  }
+
+  private read(): Promise<SMTPResponse> {
+    if (this.failure) return Promise.reject(this.failure)
+
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  async expect(...codes: number[]): Promise<SMTPResponse> {
+    const response = await this.read()
+    if (!codes.includes(response.code)) {
+      throw new Error(`SMTP error ${response.code}: ${response.lines.join(' ')}`)
+    }
+    return response
+  }
+
+  async command(line: string, ...codes: number[]): Promise<SMTPResponse> {
+    this.socket.write(line + '\r\n')
+    return this.expect(...codes)
+  }
+
+  // Returns the extensions the server advertises (STARTTLS, AUTH, ...)
+  async hello(): Promise<string[]> {
+    const response = await this.command(`EHLO ${hostname() || 'localhost'}`, 250)
+    return response.lines.slice(1).map(line => line.toUpperCase())
+  }
+
+  async startTls(): Promise<void> {
+    await this.command('STARTTLS', 220)
+
+    this.socket.removeAllListeners()
+    this.socket = await new Promise<Socket>((resolve, reject) => {
+      const secure = connectTls({ socket: this.socket, servername: this.host }, () => resolve(secure))
+      secure.once('error', reject)
+    })
+    this.encrypted = true
+    this.listen()
+  }
+
+  close() {
+    this.socket.removeAllListeners()
+    this.socket.on('error', () => {})
+    this.socket.end()
+  }
+}
+
+// Minimal SMTP client for production mail: one connection per message,
+// STARTTLS when the server offers it and AUTH PLAIN when credentials are set.
+// Someone on the network can strip STARTTLS from the server's reply, so
+// credentials are refused rather than sent over an unencrypted connection.
+export class SMTPTransport implements MailTransport {
+  name = 'smtp'
+
+  constructor(private options: SMTPOptions) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const connection = await SMTPConnection.open(this.options)
+
+    try {
+      const extensions = await connection.hello()
+
+      if (!this.options.secure && extensions.includes('STARTTLS')) {
+        await connection.startTls()
+        await connection.hello()
+      }
+
+      if (this.options.user) {
+        if (!connection.encrypted) {
+          throw new Error('SMTP server did not offer STARTTLS; refusing to send credentials unencrypted')
+        }
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.password || ''}`).toString('base64')
+        await connection.command(`AUTH PLAIN ${credentials}`, 235)
+      }
+
+      await connection.command(`MAIL FROM:<${address(message.from)}>`, 250)
+      await connection.command(`RCPT TO:<${address(message.to)}>`, 250, 251)
+      await connection.command('DATA', 354)
+      await connection.command(`${formatMessage(message)}\r\n.`, 250)
+      await connection.command('QUIT', 221)
+    } finally {
+      connection.close()
+    }
+  }
+}
@@ -0,0 +1,13 @@
+// Transport-agnostic mail types shared by every mail implementation
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage & { from: string }): Promise<void>
+}
@@ -0,0 +1,227 @@
+import { createHash, randomBytes } from 'crypto'
+import { createRemoteJWKSet, jwtVerify } from 'jose'
+import { prisma } from './db'
+import { hashPassword } from './auth'
+import { revokeAllSessions } from './sessions'
+import { revokeAllApiTokens } from './apiTokens'
+
+// OpenID Connect sign-in (authorization code + PKCE) against a single provider
+// configured with OIDC_ISSUER, OIDC_CLIENT_ID and optionally OIDC_CLIENT_SECRET.
+// Endpoints come from the issuer's discovery document, so pointing OIDC_ISSUER
+// at a local mock IdP is enough to test the flow.
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000
+
+export const OIDC_FLOW_COOKIE = 'oidc-flow'
+export const OIDC_FLOW_TTL_SECONDS = 60 * 10
+
+export interface OIDCConfig {
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  scopes: string
+  redirectUri: string
+  name: string // Shown on the sign-in button
+}
+
+interface DiscoveryDocument {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+  token_endpoint_auth_methods_supported?: string[]
+}
+
+// What the callback needs to finish the flow, kept in a short-lived cookie
+export type OIDCFlow = {
+  state: string
+  nonce: string
+  codeVerifier: string
+  next: string
+}
+
+export type OIDCProfile = {
+  subject: string
+  email: string
+  emailVerified: boolean // Only addresses the provider vouches for may sign in
+  name?: string
+}
+
+export function getOIDCConfig(): OIDCConfig | null {
+  const issuer = process.env.OIDC_ISSUER
+  const clientId = process.env.OIDC_CLIENT_ID
+  if (!issuer || !clientId) return null
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    redirectUri: process.env.OIDC_REDIRECT_URI || new URL('/api/auth/oidc/callback', appUrl).toString(),
+    name: process.env.OIDC_PROVIDER_NAME || 'SSO'
+  }
+}
+
+let discovery: { document: DiscoveryDocument; jwks: ReturnType<typeof createRemoteJWKSet>; fetchedAt: number } | null = null
+
+async function discover(config: OIDCConfig) {
+  if (discovery && discovery.document.issuer.replace(/\/$/, '') === config.issuer
+    && Date.now() - discovery.fetchedAt < DISCOVERY_TTL_MS) {
+    return discovery
+  }
+
+  const response = await fetch(`${config.issuer}/.well-known/openid-configuration`)
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed with status ${response.status}`)
+  }
+
+  const document: DiscoveryDocument = await response.json()
+  if (document.issuer.replace(/\/$/, '') !== config.issuer) {
+    throw new Error(`OIDC discovery returned issuer ${document.issuer}, expected ${config.issuer}`)
+  }
+
+  discovery = {
+    document,
+    jwks: createRemoteJWKSet(new URL(document.jwks_uri)),
+    fetchedAt: Date.now()
+  }
+  return discovery
+}
+
+function randomToken() {
+  return randomBytes(32).toString('base64url')
+}
+
+// Builds the provider's authorization URL and the flow state the callback checks
+export async function createAuthorizationRequest(config: OIDCConfig, next: string) {
+  const { document } = await discover(config)
+
+  const flow: OIDCFlow = {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    next
+  }
+
+  const url = new URL(document.authorization_endpoint)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', config.clientId)
+  url.searchParams.set('redirect_uri', config.redirectUri)
+  url.searchParams.set('scope', config.scopes)
+  url.searchParams.set('state', flow.state)
+  url.searchParams.set('nonce', flow.nonce)
+  url.searchParams.set('code_challenge', createHash('sha256').update(flow.codeVerifier).digest('base64url'))
+  url.searchParams.set('code_challenge_method', 'S256')
+
+  return { url, flow }
+}
+
+// Exchanges the authorization code and returns the verified ID token claims
+export async function completeAuthorization(config: OIDCConfig, code: string, flow: OIDCFlow): Promise<OIDCProfile> {
+  const { document, jwks } = await discover(config)
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    code_verifier: flow.codeVerifier
+  })
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' }
+
+  // Confidential clients authenticate with HTTP Basic unless the provider only takes form fields
+  const methods = document.token_endpoint_auth_methods_supported || ['client_secret_basic']
+  if (config.clientSecret && methods.includes('client_secret_basic')) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`
+  } else {
+    body.set('client_id', config.clientId)
+    if (config.clientSecret) body.set('client_secret', config.clientSecret)
+  }
+
+  const response = await fetch(document.token_endpoint, { method: 'POST', headers, body })
+  const tokens = await response.json()
+  if (!response.ok || typeof tokens.id_token !== 'string') {
+    throw new Error(`OIDC token exchange failed: ${tokens.error || response.status}`)
+  }
+
+  const { payload } = await jwtVerify(tokens.id_token, jwks, {
+    issuer: document.issuer,
+    audience: config.clientId
+  })
+
+  if (payload.nonce !== flow.nonce) {
+    throw new Error('OIDC ID token nonce mismatch')
+  }
+
+  if (!payload.sub) {
+    throw new Error('OIDC ID token has no subject')
+  }
+
+  const name = [payload.name, payload.preferred_username, payload.given_name]
+    .find(value => typeof value === 'string' && value)
+
+  const email = typeof payload.email === 'string' ? payload.email.toLowerCase() : ''
+
+  return {
+    subject: payload.sub,
+    email,
+    emailVerified: !!email && payload.email_verified === true,
+    name: name as string | undefined
+  }
+}
+
+// Finds the user this identity signs in as: the linked account, else the
+// account with the same (verified) email, else a new account. New accounts get
+// an unguessable password; they can set one through password reset.
+//
+// An existing account that never verified its email may have been registered
+// by someone else ahead of the address's owner. Before linking it, its
+// password is replaced and its sessions and API tokens are revoked, so only
+// the provider's user keeps access.
+export async function findOrCreateOIDCUser(config: OIDCConfig, profile: OIDCProfile) {
+  const identity = await prisma.userIdentity.findUnique({
+    where: { issuer_subject: { issuer: config.issuer, subject: profile.subject } },
+    include: { user: true }
+  })
+
+  if (identity) return identity.user
+
+  const existing = await prisma.user.findFirst({
+    where: { email: { equals: profile.email, mode: 'insensitive' } }
+  })
+
+  let user = existing
+
+  if (existing && !existing.emailVerifiedAt) {
+    user = await prisma.user.update({
+      where: { id: existing.id },
+      data: { password: await hashPassword(randomToken()), emailVerifiedAt: new Date() }
+    })
+    await revokeAllSessions(existing.id)
+    await revokeAllApiTokens(existing.id)
+  }
+
+  if (!user) {
+    user = await prisma.user.create({
+      data: {
+        email: profile.email,
+        password: await hashPassword(randomToken()),
+        name: profile.name || profile.email.split('@')[0],
+        emailVerifiedAt: new Date()
+      }
+    })
+  }
+
+  await prisma.userIdentity.create({
+    data: {
+      userId: user.id,
+      issuer: config.issuer,
+      subject: profile.subject,
+      email: profile.email
+    }
+  })
+
+  return user
+}
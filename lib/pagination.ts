@@ -0,0 +1,41 @@
+// Cursor pagination for list endpoints. The cursor is the id of the last row
+// of the previous page, and each page reads one extra row to tell whether
+// there is another. Order by a unique column last (usually id) so rows with
+// the same timestamp keep their place between pages.
+
+export const MAX_PAGE_SIZE = 100
+
+export interface PageParams {
+  limit: number
+  cursor?: string
+}
+
+export interface Page<T> {
+  items: T[]
+  nextCursor: string | null
+}
+
+// ?limit=&cursor=, with limit clamped to 1..MAX_PAGE_SIZE
+export function pageParams(searchParams: URLSearchParams, defaultLimit = 20): PageParams {
+  const limit = Math.floor(Number(searchParams.get('limit'))) || defaultLimit
+  return {
+    limit: Math.min(Math.max(limit, 1), MAX_PAGE_SIZE),
+    cursor: searchParams.get('cursor') || undefined
+  }
+}
+
+// take/cursor/skip for a findMany, or for a relation in include
+export function pageQuery({ limit, cursor }: PageParams) {
+  return {
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+  }
+}
+
+export function toPage<T extends { id: string }>(rows: T[], limit: number): Page<T> {
+  const items = rows.slice(0, limit)
+  return {
+    items,
+    nextCursor: rows.length > limit ? items[items.length - 1].id : null
+  }
+}
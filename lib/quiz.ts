@@ -0,0 +1,359 @@
+import { z } from 'zod'
+
+// Quiz question types shared by generation, the quiz page and grading.
+// Client-safe: model-graded short answers are handled in lib/grading.ts.
+
+export const questionTypes = [
+  'multiple_choice',
+  'true_false',
+  'multi_select',
+  'numeric',
+  'cloze',
+  'short_answer'
+] as const
+
+export type QuestionType = typeof questionTypes[number]
+
+// Marks a gap in cloze question text
+export const CLOZE_BLANK = '___'
+
+const baseQuestion = {
+  id: z.string(),
+  question: z.string().min(1),
+  explanation: z.string().optional()
+}
+
+export const questionSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...baseQuestion,
+    type: z.literal('multiple_choice'),
+    options: z.array(z.string()).min(2),
+    correctAnswer: z.number().int().min(0)
+  }).refine(q => q.correctAnswer < q.options.length, 'correctAnswer must index an option'),
+  z.object({
+    ...baseQuestion,
+    type: z.literal('true_false'),
+    correctAnswer: z.boolean()
+  }),
+  z.object({
+    ...baseQuestion,
+    type: z.literal('multi_select'),
+    options: z.array(z.string()).min(2),
+    correctAnswers: z.array(z.number().int().min(0)).min(1)
+  }).refine(q => q.correctAnswers.every(i => i < q.options.length), 'correctAnswers must index options'),
+  z.object({
+    ...baseQuestion,
+    type: z.literal('numeric'),
+    correctAnswer: z.number(),
+    tolerance: z.number().min(0).default(0),
+    unit: z.string().optional()
+  }),
+  z.object({
+    ...baseQuestion,
+    type: z.literal('cloze'),
+    blanks: z.array(z.array(z.string().min(1)).min(1)).min(1) // Accepted answers per blank
+  }).refine(q => q.question.split(CLOZE_BLANK).length - 1 === q.blanks.length, 'Each blank needs accepted answers'),
+  z.object({
+    ...baseQuestion,
+    type: z.literal('short_answer'),
+    rubric: z.string().min(1),
+    sampleAnswer: z.string().min(1)
+  })
+])
+
+export type Question = z.infer<typeof questionSchema>
+
+export type QuestionOf<T extends QuestionType> = Extract<Question, { type: T }>
+
+// Fields that give the answer away. They're left out of questions served for
+// taking a quiz, and sent back with the graded attempt.
+const ANSWER_KEY_FIELDS = ['correctAnswer', 'correctAnswers', 'tolerance', 'blanks', 'rubric', 'sampleAnswer', 'explanation'] as const
+
+type WithoutAnswerKey<T> = T extends unknown ? Omit<T, typeof ANSWER_KEY_FIELDS[number]> : never
+
+// A question as shown to someone taking the quiz
+export type QuizQuestion = WithoutAnswerKey<Question>
+
+export function withoutAnswerKey(question: Question): QuizQuestion {
+  return Object.fromEntries(
+    Object.entries(question).filter(([field]) => !(ANSWER_KEY_FIELDS as readonly string[]).includes(field))
+  ) as QuizQuestion
+}
+
+// Gaps in a cloze question, counted from its text so it works without the answer key
+export function clozeBlankCount(question: { question: string }): number {
+  return question.question.split(CLOZE_BLANK).length - 1
+}
+
+// Answer shapes by question type
+export type QuizAnswer = number | boolean | number[] | string[] | string
+
+export type GradeResult = {
+  correct: boolean
+  credit: number // 0-1, allows partial credit
+  feedback?: string
+}
+
+// One stored row per question in QuizAttempt.answers (a type alias so it's valid Prisma JSON input)
+export type AttemptAnswer = GradeResult & {
+  questionId: string
+  answer: QuizAnswer | null // null when the question was skipped
+  timeTakenSeconds?: number
+}
+
+const MAX_TEXT_ANSWER = 2000
+
+// Questions created before types existed are multiple choice without a `type`
+export function normalizeQuestion(raw: unknown): Question | null {
+  const candidate = raw && typeof raw === 'object' && !('type' in raw)
+    ? { ...raw, type: 'multiple_choice' }
+    : raw
+  const parsed = questionSchema.safeParse(candidate)
+  return parsed.success ? parsed.data : null
+}
+
+export function normalizeQuestions(raw: unknown): Question[] {
+  return (Array.isArray(raw) ? raw : [])
+    .map(normalizeQuestion)
+    .filter((q): q is Question => q !== null)
+}
+
+// Shape of a submitted answer for the given question
+export function answerSchemaFor(question: Question): z.ZodType<QuizAnswer> {
+  switch (question.type) {
+    case 'multiple_choice':
+      return z.number().int().min(0).max(question.options.length - 1)
+    case 'true_false':
+      return z.boolean()
+    case 'multi_select':
+      return z.array(z.number().int().min(0).max(question.options.length - 1))
+        .refine(selected => new Set(selected).size === selected.length, 'Options can only be selected once')
+    case 'numeric':
+      return z.number()
+    case 'cloze':
+      return z.array(z.string().max(MAX_TEXT_ANSWER)).length(question.blanks.length)
+    case 'short_answer':
+      return z.string().max(MAX_TEXT_ANSWER)
+  }
+}
+
+// Validates a quiz attempt submission against the quiz it answers. The
+// attempt token comes from loading the quiz and records when it started.
+export function attemptSchema(questions: Question[]) {
+  const questionsById = new Map(questions.map(q => [q.id, q]))
+
+  return z.object({
+    attemptToken: z.string().min(1, 'attemptToken is required'),
+    answers: z.array(
+      z.object({
+        questionId: z.string().refine(id => questionsById.has(id), 'Unknown question'),
+        answer: z.custom<QuizAnswer>(),
+        timeTakenSeconds: z.number().int().min(0).optional()
+      }).superRefine((entry, ctx) => {
+        const question = questionsById.get(entry.questionId)
+        if (question && !answerSchemaFor(question).safeParse(entry.answer).success) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['answer'],
+            message: `Invalid answer for a ${question.type} question`
+          })
+        }
+      })
+    ).refine(
+      answers => new Set(answers.map(a => a.questionId)).size === answers.length,
+      'Each question can only be answered once'
+    )
+  })
+}
+
+export type AttemptSubmission = z.infer<ReturnType<typeof attemptSchema>>
+
+// Generation instructions and JSON shape for each question type
+export const questionTypePrompts: Record<QuestionType, string> = {
+  multiple_choice: `"multiple_choice": 4 plausible options with exactly one correct.
+  { "type": "multiple_choice", "id": "q1", "question": "...", "options": ["A", "B", "C", "D"], "correctAnswer": 0, "explanation": "..." }
+  correctAnswer is the index (0-3) of the correct option.`,
+  true_false: `"true_false": a single statement that is unambiguously true or false.
+  { "type": "true_false", "id": "q2", "question": "Statement to judge", "correctAnswer": true, "explanation": "..." }`,
+  multi_select: `"multi_select": 4-6 options where two or more are correct. Say "Select all that apply" in the question.
+  { "type": "multi_select", "id": "q3", "question": "...", "options": ["A", "B", "C", "D", "E"], "correctAnswers": [0, 2], "explanation": "..." }`,
+  numeric: `"numeric": a calculation or quantity with a single numeric answer. Set tolerance to the acceptable absolute error (0 for exact answers) and include a unit when relevant.
+  { "type": "numeric", "id": "q4", "question": "...", "correctAnswer": 9.81, "tolerance": 0.01, "unit": "m/s^2", "explanation": "..." }`,
+  cloze: `"cloze": a sentence with key terms replaced by ${CLOZE_BLANK}. Provide accepted answers (including common synonyms) for each blank, in order.
+  { "type": "cloze", "id": "q5", "question": "The ${CLOZE_BLANK} is the powerhouse of the cell.", "blanks": [["mitochondria", "mitochondrion"]], "explanation": "..." }`,
+  short_answer: `"short_answer": an open question answered in 1-3 sentences. The rubric lists the points a full-credit answer must make.
+  { "type": "short_answer", "id": "q6", "question": "...", "rubric": "Mentions X; explains Y", "sampleAnswer": "...", "explanation": "..." }`
+}
+
+export function isAnswered(question: Question | QuizQuestion, answer: QuizAnswer | undefined): boolean {
+  if (answer === undefined || answer === null) return false
+
+  switch (question.type) {
+    case 'multi_select':
+      return Array.isArray(answer) && answer.length > 0
+    case 'numeric':
+      return typeof answer === 'number' && !isNaN(answer)
+    case 'cloze':
+      return Array.isArray(answer) && answer.length === clozeBlankCount(question) &&
+        answer.every(a => typeof a === 'string' && a.trim() !== '')
+    case 'short_answer':
+      return typeof answer === 'string' && answer.trim() !== ''
+    default:
+      return true
+  }
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s.-]/gu, '').replace(/\s+/g, ' ').trim()
+}
+
+// Grade every type that has an objectively correct answer
+export function gradeObjective(question: Exclude<Question, { type: 'short_answer' }>, answer: QuizAnswer): GradeResult {
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'true_false': {
+      const correct = answer === question.correctAnswer
+      return { correct, credit: correct ? 1 : 0 }
+    }
+    case 'multi_select': {
+      const selected = new Set<unknown>(Array.isArray(answer) ? answer : [])
+      const expected = new Set<unknown>(question.correctAnswers)
+      const correct = selected.size === expected.size && [...selected].every(i => expected.has(i))
+      return { correct, credit: correct ? 1 : 0 }
+    }
+    case 'numeric': {
+      const correct = typeof answer === 'number' && Math.abs(answer - question.correctAnswer) <= question.tolerance
+      return { correct, credit: correct ? 1 : 0 }
+    }
+    case 'cloze': {
+      const given = Array.isArray(answer) ? answer : []
+      const hits = question.blanks.filter((accepted, i) =>
+        typeof given[i] === 'string' && accepted.some(a => normalizeText(a) === normalizeText(given[i] as string))
+      ).length
+      return { correct: hits === question.blanks.length, credit: hits / question.blanks.length }
+    }
+  }
+}
+
+// Human-readable answers for result screens and conversational feedback
+export function formatAnswer(question: Question | QuizQuestion, answer: QuizAnswer | undefined): string {
+  if (answer === undefined) return 'No answer'
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return question.options[answer as number] ?? 'No answer'
+    case 'true_false':
+      return answer ? 'True' : 'False'
+    case 'multi_select':
+      return (answer as number[]).map(i => question.options[i]).join(', ')
+    case 'numeric':
+      return `${answer}${question.unit ? ` ${question.unit}` : ''}`
+    case 'cloze':
+      return (answer as string[]).join(', ')
+    case 'short_answer':
+      return answer as string
+  }
+}
+
+export function formatCorrectAnswer(question: Question): string {
+  switch (question.type) {
+    case 'multiple_choice':
+      return question.options[question.correctAnswer]
+    case 'true_false':
+      return question.correctAnswer ? 'True' : 'False'
+    case 'multi_select':
+      return question.correctAnswers.map(i => question.options[i]).join(', ')
+    case 'numeric':
+      return `${question.correctAnswer}${question.tolerance ? ` (± ${question.tolerance})` : ''}${question.unit ? ` ${question.unit}` : ''}`
+    case 'cloze':
+      return question.blanks.map(accepted => accepted[0]).join(', ')
+    case 'short_answer':
+      return question.sampleAnswer
+  }
+}
+
+const optionLetter = (index: number) => String.fromCharCode(65 + index)
+
+// Question text for a tutor to read aloud or type, without revealing the answer
+export function describeQuestion(question: Question): string {
+  const options = 'options' in question
+    ? '\n' + question.options.map((option, i) => `${optionLetter(i)}) ${option}`).join('\n')
+    : ''
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return `${question.question}${options}`
+    case 'true_false':
+      return `True or false: ${question.question}`
+    case 'multi_select':
+      return `${question.question} (choose all that apply)${options}`
+    case 'numeric':
+      return `${question.question}${question.unit ? ` (answer in ${question.unit})` : ''}`
+    case 'cloze':
+      return `Fill in the blank${question.blanks.length > 1 ? 's' : ''}: ${question.question}`
+    case 'short_answer':
+      return `${question.question} (answer in a sentence or two)`
+  }
+}
+
+// Option index for "B", "option 2" or the option's own text
+function matchOption(text: string, options: string[]): number | null {
+  const normalized = normalizeText(text).replace(/^(?:option|answer|letter)\s+/, '')
+
+  const letter = normalized.match(/^\(?([a-z])\)?$/)
+  if (letter) {
+    const index = letter[1].charCodeAt(0) - 97
+    return index < options.length ? index : null
+  }
+
+  if (/^\d+$/.test(normalized)) {
+    const index = Number(normalized) - 1
+    return index >= 0 && index < options.length ? index : null
+  }
+
+  const matches = options
+    .map((option, index) => ({ option: normalizeText(option), index }))
+    .filter(({ option }) => option === normalized || (option.length > 3 && normalized.includes(option)))
+  return matches.length === 1 ? matches[0].index : null
+}
+
+// Interprets a typed or spoken answer ("B", "true", "A and C", "9.8 meters")
+// as the answer shape for the question. Returns null when it can't.
+export function parseSpokenAnswer(question: Question, text: string): QuizAnswer | null {
+  const trimmed = text.trim()
+  if (!trimmed) return null
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return matchOption(trimmed, question.options)
+    case 'true_false': {
+      const isTrue = /\b(true|yes|correct|right)\b/i.test(trimmed)
+      const isFalse = /\b(false|no|not|incorrect|wrong)\b/i.test(trimmed)
+      return isTrue !== isFalse ? isTrue : null
+    }
+    case 'multi_select': {
+      const whole = matchOption(trimmed, question.options)
+      if (whole !== null) return [whole]
+
+      // "A C", "a, c and d" or a list of option texts
+      const parts = /^[a-z](?:(?:\s*[,;&]\s*|\s+and\s+|\s+)[a-z])*$/i.test(trimmed)
+        ? trimmed.match(/\b[a-z]\b/gi) ?? []
+        : trimmed.split(/\s*(?:,|;|&|\band\b)\s*/i).filter(Boolean)
+      const indexes = parts.map(part => matchOption(part, question.options))
+      return indexes.every(i => i !== null)
+        ? [...new Set(indexes as number[])].sort((a, b) => a - b)
+        : null
+    }
+    case 'numeric': {
+      const match = trimmed.replace(/(\d),(?=\d{3})/g, '$1').match(/-?(?:\d+\.?\d*|\.\d+)(?:e-?\d+)?/i)
+      return match ? Number(match[0]) : null
+    }
+    case 'cloze': {
+      if (question.blanks.length === 1) return [trimmed]
+      const parts = trimmed.split(/\s*(?:,|;|\band\b)\s*/i).filter(Boolean)
+      return parts.length === question.blanks.length ? parts : null
+    }
+    case 'short_answer':
+      return trimmed
+  }
+}
@@ -0,0 +1,143 @@
+import { NextResponse } from 'next/server'
+import { MemoryStore } from './memory'
+import { PostgresStore } from './postgres'
+import { clientIp } from '../auth'
+import type { RateLimitStore } from './types'
+
+export type * from './types'
+
+const DAY_SECONDS = 60 * 60 * 24
+
+export type RateLimitRule = {
+  limit: number
+  windowSeconds: number
+}
+
+export type RateLimitResult = {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetAt: Date
+  retryAfterSeconds: number
+}
+
+// Per-IP limits on auth routes and per-user daily quotas on AI usage. Windows
+// are fixed and aligned to the epoch, so daily quotas reset at midnight UTC.
+export const rateLimits = {
+  login: { limit: 10, windowSeconds: 60 * 15 },
+  register: { limit: 5, windowSeconds: 60 * 60 },
+  accountEmails: { limit: 5, windowSeconds: 60 * 60 }, // Password reset and verification emails
+  completions: { limit: Number(process.env.QUOTA_COMPLETIONS_PER_DAY) || 200, windowSeconds: DAY_SECONDS },
+  realtimeMinutes: { limit: Number(process.env.QUOTA_REALTIME_MINUTES_PER_DAY) || 60, windowSeconds: DAY_SECONDS },
+  generatedItems: { limit: Number(process.env.QUOTA_GENERATED_ITEMS_PER_DAY) || 300, windowSeconds: DAY_SECONDS }
+} satisfies Record<string, RateLimitRule>
+
+export type RateLimitName = keyof typeof rateLimits
+
+let store: RateLimitStore | null = null
+
+// Select the store with RATE_LIMIT_STORE ('memory' | 'postgres'). Defaults to
+// memory; use postgres whenever more than one server instance is running.
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store
+
+  const name = process.env.RATE_LIMIT_STORE || 'memory'
+
+  switch (name) {
+    case 'memory':
+      store = new MemoryStore()
+      break
+    case 'postgres':
+      store = new PostgresStore()
+      break
+    default:
+      throw new Error(`Unknown rate limit store: ${name}`)
+  }
+
+  return store
+}
+
+// The counter key and reset time of the window `time` falls in
+function windowFor(name: RateLimitName, id: string, time: number) {
+  const windowMs = rateLimits[name].windowSeconds * 1000
+  const windowStart = Math.floor(time / windowMs) * windowMs
+  return { key: `${name}:${id}:${windowStart}`, resetAt: new Date(windowStart + windowMs) }
+}
+
+// Counts `cost` against the limit for `id` (an IP address or user id). Rejected
+// hits are refunded, so a request that doesn't fit leaves the rest available.
+export async function consume(name: RateLimitName, id: string, cost = 1): Promise<RateLimitResult> {
+  const rule: RateLimitRule = rateLimits[name]
+  const { key, resetAt } = windowFor(name, id, Date.now())
+
+  const rateLimitStore = getRateLimitStore()
+  const count = await rateLimitStore.increment(key, cost, resetAt)
+  const allowed = count <= rule.limit
+
+  if (!allowed) {
+    await rateLimitStore.increment(key, -cost, resetAt)
+  }
+
+  return {
+    allowed,
+    limit: rule.limit,
+    remaining: Math.max(0, rule.limit - (allowed ? count : count - cost)),
+    resetAt,
+    retryAfterSeconds: Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000))
+  }
+}
+
+// Gives back `amount` charged at `chargedAt`, unless its window has since reset
+export async function refund(name: RateLimitName, id: string, amount: number, chargedAt: Date): Promise<void> {
+  const charged = windowFor(name, id, chargedAt.getTime())
+  if (charged.key !== windowFor(name, id, Date.now()).key) return
+
+  await getRateLimitStore().increment(charged.key, -amount, charged.resetAt)
+}
+
+// "in 3 hours", "in 12 minutes" - for messages shown to users and the model
+export function formatRetryAfter(seconds: number): string {
+  if (seconds >= 60 * 60) {
+    const hours = Math.round(seconds / (60 * 60))
+    return `in ${hours} hour${hours === 1 ? '' : 's'}`
+  }
+  if (seconds >= 60) {
+    const minutes = Math.round(seconds / 60)
+    return `in ${minutes} minute${minutes === 1 ? '' : 's'}`
+  }
+  return `in ${seconds} second${seconds === 1 ? '' : 's'}`
+}
+
+export function tooManyRequests(result: RateLimitResult, error: string) {
+  return NextResponse.json(
+    { error, retryAfter: result.retryAfterSeconds },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(result.retryAfterSeconds),
+        'X-RateLimit-Limit': String(result.limit),
+        'X-RateLimit-Remaining': String(result.remaining),
+        'X-RateLimit-Reset': String(Math.floor(result.resetAt.getTime() / 1000))
+      }
+    }
+  )
+}
+
+// For auth routes: the 429 to send when this IP is over the limit, else null
+export async function limitByIp(headers: Headers, name: RateLimitName): Promise<NextResponse | null> {
+  const result = await consume(name, clientIp(headers) || 'unknown')
+  if (result.allowed) return null
+
+  return tooManyRequests(result, `Too many attempts. Please try again ${formatRetryAfter(result.retryAfterSeconds)}.`)
+}
+
+// For AI usage: the 429 to send when the user's daily quota is used up, else null
+export async function limitByUser(userId: string, name: RateLimitName, what: string, cost = 1): Promise<NextResponse | null> {
+  const result = await consume(name, userId, cost)
+  if (result.allowed) return null
+
+  return tooManyRequests(
+    result,
+    `You've reached today's limit of ${result.limit} ${what}. It resets ${formatRetryAfter(result.retryAfterSeconds)}.`
+  )
+}
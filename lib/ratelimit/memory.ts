@@ -0,0 +1,31 @@
+import type { RateLimitStore } from './types'
+
+const PRUNE_INTERVAL_MS = 60 * 1000
+
+// Per-process counters. Fine for a single server and for tests; with several
+// instances (e.g. serverless) each keeps its own count, so use the Postgres store.
+export class MemoryStore implements RateLimitStore {
+  name = 'memory'
+  private counters = new Map<string, { count: number; resetAt: number }>()
+  private prunedAt = Date.now()
+
+  async increment(key: string, amount: number, resetAt: Date): Promise<number> {
+    this.prune()
+
+    const counter = this.counters.get(key) ?? { count: 0, resetAt: resetAt.getTime() }
+    counter.count += amount
+    this.counters.set(key, counter)
+
+    return counter.count
+  }
+
+  private prune() {
+    const now = Date.now()
+    if (now - this.prunedAt < PRUNE_INTERVAL_MS) return
+
+    this.prunedAt = now
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) this.counters.delete(key)
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { prisma } from '../db'
+import type { RateLimitStore } from './types'
+
+// Chance that a hit also deletes expired counters, so the table stays small
+// without a scheduled job
+const PRUNE_PROBABILITY = 0.01
+
+// Counters in the RateLimit table, shared by every server instance
+export class PostgresStore implements RateLimitStore {
+  name = 'postgres'
+
+  async increment(key: string, amount: number, resetAt: Date): Promise<number> {
+    if (Math.random() < PRUNE_PROBABILITY) {
+      await prisma.rateLimit.deleteMany({ where: { resetAt: { lt: new Date() } } })
+    }
+
+    // Single statement, so concurrent requests can't lose each other's hits
+    const [row] = await prisma.$queryRaw<{ count: number }[]>`
+      INSERT INTO "RateLimit" ("key", "count", "resetAt")
+      VALUES (${key}, ${amount}, ${resetAt})
+      ON CONFLICT ("key") DO UPDATE SET "count" = "RateLimit"."count" + ${amount}
+      RETURNING "count"
+    `
+
+    return row.count
+  }
+}
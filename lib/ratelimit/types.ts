@@ -0,0 +1,8 @@
+// Storage for fixed-window counters shared by every rate limit store
+
+export interface RateLimitStore {
+  name: string
+  // Adds `amount` (negative to refund) to the counter for `key` and returns the
+  // new total. `resetAt` is when the window ends and the counter can be dropped.
+  increment(key: string, amount: number, resetAt: Date): Promise<number>
+}
@@ -0,0 +1,140 @@
+import { prisma } from './db'
+
+// Voice calls. The server opens each call with OpenAI on the browser's behalf
+// (WebRTC, so audio still flows browser to OpenAI) and keeps its call id. A
+// call is paid for ahead, a minute at a time after the prepaid ones, and hung
+// up from here once it outlives what was paid - by /api/realtime/usage when
+// the quota runs out, or by the sweep when the client stops paying.
+
+const OPENAI_REALTIME_URL = 'https://api.openai.com/v1/realtime/calls'
+const REALTIME_MODEL = 'gpt-realtime'
+const MINUTE_MS = 60 * 1000
+
+// The last transcripts of a call can arrive just after it ends
+const TRANSCRIPT_GRACE_MS = 60 * 1000
+
+// Unpaid time a call may run before the sweep hangs it up, for clients whose
+// next payment is a little late
+const PAYMENT_GRACE_MS = 30 * 1000
+
+export class RealtimeCallError extends Error {
+  constructor(public status: number, public details: string) {
+    super('Failed to create session')
+  }
+}
+
+function apiKey(): string {
+  const key = process.env.OPENAI_API_KEY
+  if (!key) throw new Error('OpenAI API key not configured')
+  return key
+}
+
+// Opens a call from the browser's SDP offer and returns OpenAI's answer
+export async function openCall(
+  { userId, conversationId, offer, prepaidMinutes }:
+  { userId: string; conversationId: string | null; offer: string; prepaidMinutes: number }
+): Promise<{ callId: string; answer: string }> {
+  const form = new FormData()
+  form.set('sdp', offer)
+  form.set('session', JSON.stringify({ type: 'realtime', model: REALTIME_MODEL }))
+
+  const response = await fetch(OPENAI_REALTIME_URL, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${apiKey()}` },
+    body: form
+  })
+
+  if (!response.ok) {
+    throw new RealtimeCallError(response.status, await response.text())
+  }
+
+  // Location: /v1/realtime/calls/{call_id}
+  const callId = response.headers.get('location')?.split('/').pop()
+  if (!callId) {
+    throw new RealtimeCallError(502, 'No call id in the response')
+  }
+
+  await prisma.realtimeCall.create({
+    data: {
+      id: callId,
+      userId,
+      conversationId,
+      paidUntil: new Date(Date.now() + prepaidMinutes * MINUTE_MS)
+    }
+  })
+
+  return { callId, answer: await response.text() }
+}
+
+// The user's call, if it is still open
+export function findOpenCall(userId: string, callId: string) {
+  return prisma.realtimeCall.findFirst({
+    where: { id: callId, userId, endedAt: null }
+  })
+}
+
+// Whether the user is on a call for this conversation, or just left one. Its
+// transcripts are saved by the client as they arrive, tutor turns included.
+export async function hasOpenCall(userId: string, conversationId: string): Promise<boolean> {
+  const call = await prisma.realtimeCall.findFirst({
+    where: {
+      userId,
+      conversationId,
+      OR: [{ endedAt: null }, { endedAt: { gt: new Date(Date.now() - TRANSCRIPT_GRACE_MS) } }]
+    },
+    select: { id: true }
+  })
+  return !!call
+}
+
+// Extends the call by a paid minute
+export async function extendCall(callId: string): Promise<void> {
+  const call = await prisma.realtimeCall.findUniqueOrThrow({ where: { id: callId } })
+  const from = Math.max(call.paidUntil.getTime(), Date.now())
+
+  await prisma.realtimeCall.update({
+    where: { id: callId },
+    data: { paidUntil: new Date(from + MINUTE_MS) }
+  })
+}
+
+// Hangs up with OpenAI and marks the call ended. Safe to repeat.
+export async function hangUp(callId: string): Promise<void> {
+  const { count } = await prisma.realtimeCall.updateMany({
+    where: { id: callId, endedAt: null },
+    data: { endedAt: new Date() }
+  })
+  if (count === 0) return
+
+  const response = await fetch(`${OPENAI_REALTIME_URL}/${callId}/hangup`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${apiKey()}` }
+  })
+
+  // 404: OpenAI already ended it (the browser left, or its own time limit)
+  if (!response.ok && response.status !== 404) {
+    await prisma.realtimeCall.update({ where: { id: callId }, data: { endedAt: null } })
+    throw new Error(`Failed to hang up call ${callId}: ${response.status} ${await response.text()}`)
+  }
+}
+
+// Hangs up every call that has run past what was paid for. Returns how many.
+export async function hangUpUnpaidCalls(): Promise<number> {
+  const calls = await prisma.realtimeCall.findMany({
+    where: { endedAt: null, paidUntil: { lt: new Date(Date.now() - PAYMENT_GRACE_MS) } },
+    select: { id: true }
+  })
+
+  let ended = 0
+  for (const call of calls) {
+    try {
+      await hangUp(call.id)
+      ended++
+    } catch (error) {
+      // Try again on the next sweep
+      console.error('Error hanging up realtime call:', error)
+    }
+  }
+
+  return ended
+}
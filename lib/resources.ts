@@ -0,0 +1,85 @@
+import { z } from 'zod'
+
+// Learning-resource catalog types, validation and CSV parsing. Client-safe:
+// importing and searching the database live in lib/catalog.ts.
+
+export const resourceTypes = ['article', 'video', 'tutorial', 'course', 'book', 'interactive'] as const
+export const resourceLevels = ['beginner', 'intermediate', 'advanced'] as const
+
+export type ResourceType = typeof resourceTypes[number]
+export type ResourceLevel = typeof resourceLevels[number]
+
+export const learningResourceSchema = z.object({
+  title: z.string().trim().min(1).max(300),
+  url: z.url({ protocol: /^https?$/ }),
+  description: z.string().trim().max(2000).optional(),
+  type: z.enum(resourceTypes),
+  level: z.enum(resourceLevels).optional(),
+  subject: z.string().trim().min(1).max(100).optional(),
+  // CSV cells list topics separated by semicolons
+  topics: z.preprocess(
+    value => typeof value === 'string' ? value.split(';') : value,
+    z.array(z.string().trim().min(1).max(100)).max(30)
+  ).default([]),
+  source: z.string().trim().max(100).optional()
+})
+
+export type LearningResourceInput = z.output<typeof learningResourceSchema>
+
+export interface ImportIssue {
+  row: number // 1-based position in the import (excluding a CSV header)
+  path: string
+  message: string
+}
+
+// Parse CSV with a header row into records keyed by lower-cased column name.
+// Handles quoted fields with commas, escaped quotes and newlines; empty cells are omitted.
+export function parseCSV(text: string): Record<string, string>[] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  const [header, ...records] = rows.filter(r => r.some(cell => cell.trim() !== ''))
+  if (!header) return []
+
+  const columns = header.map(column => column.trim().toLowerCase())
+  return records.map(cells => Object.fromEntries(
+    columns
+      .map((column, i) => [column, cells[i]?.trim() ?? ''] as const)
+      .filter(([, value]) => value !== '')
+  ))
+}
@@ -0,0 +1,172 @@
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from './db'
+import { clientIp, createToken, parseRole, REFRESH_TOKEN_TTL_SECONDS, type TokenClaims } from './auth'
+
+// A parallel request that presents the refresh token we just rotated away from
+// is a race, not a replay, if it arrives within this window
+const ROTATION_GRACE_MS = 30 * 1000
+
+export type SessionTokens = {
+  claims: TokenClaims
+  accessToken: string
+  refreshToken: string | null // null when the caller should keep its current refresh cookie
+}
+
+type SessionUser = { id: string; email: string; name: string | null; role: string }
+
+function hashSecret(secret: string) {
+  return createHash('sha256').update(secret).digest('hex')
+}
+
+function newSecret() {
+  return randomBytes(32).toString('base64url')
+}
+
+function expiresAt(from: Date) {
+  return new Date(from.getTime() + REFRESH_TOKEN_TTL_SECONDS * 1000)
+}
+
+// Device details recorded on the session, from the request headers
+function clientInfo(headers: Headers) {
+  return {
+    userAgent: headers.get('user-agent')?.slice(0, 512) || null,
+    ipAddress: clientIp(headers)
+  }
+}
+
+async function issueTokens(sessionId: string, user: SessionUser, secret: string | null): Promise<SessionTokens> {
+  const claims: TokenClaims = {
+    userId: user.id,
+    sessionId,
+    role: parseRole(user.role),
+    email: user.email,
+    name: user.name || undefined
+  }
+
+  return {
+    claims,
+    accessToken: await createToken(claims),
+    refreshToken: secret ? `${sessionId}.${secret}` : null
+  }
+}
+
+// Called on login and registration
+export async function startSession(user: SessionUser, headers: Headers): Promise<SessionTokens> {
+  const secret = newSecret()
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashSecret(secret),
+      expiresAt: expiresAt(new Date()),
+      ...clientInfo(headers)
+    }
+  })
+
+  return issueTokens(session.id, user, secret)
+}
+
+// Exchanges a refresh token for a new access token and a new refresh token.
+// Presenting an already-rotated token outside the grace window means it was
+// copied, so the whole session is revoked.
+export async function refreshSession(refreshToken: string, headers: Headers): Promise<SessionTokens | null> {
+  const [sessionId, secret] = refreshToken.split('.')
+  if (!sessionId || !secret) return null
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { user: { select: { id: true, email: true, name: true, role: true } } }
+  })
+
+  const now = new Date()
+  if (!session || session.revokedAt || session.expiresAt <= now) return null
+
+  const hash = hashSecret(secret)
+  const recentlyRotated = session.rotatedAt && now.getTime() - session.rotatedAt.getTime() < ROTATION_GRACE_MS
+
+  if (hash !== session.refreshTokenHash) {
+    if (hash === session.previousTokenHash && recentlyRotated) {
+      return issueTokens(session.id, session.user, null)
+    }
+
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { revokedAt: now }
+    })
+    return null
+  }
+
+  const next = newSecret()
+  const { count } = await prisma.session.updateMany({
+    // Only the first of several concurrent refreshes wins the rotation
+    where: { id: session.id, refreshTokenHash: hash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashSecret(next),
+      previousTokenHash: hash,
+      rotatedAt: now,
+      lastSeenAt: now,
+      expiresAt: expiresAt(now),
+      ...clientInfo(headers)
+    }
+  })
+
+  return issueTokens(session.id, session.user, count === 1 ? next : null)
+}
+
+// Returns false when the session doesn't exist or belongs to someone else
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  })
+
+  return count > 0
+}
+
+export async function revokeAllSessions(userId: string): Promise<number> {
+  const { count } = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  })
+
+  return count
+}
+
+export async function listSessions(userId: string) {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastSeenAt: true
+    },
+    orderBy: { lastSeenAt: 'desc' }
+  })
+}
+
+// "Chrome on macOS" from a user agent string, for the session list
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device'
+
+  const browser = [
+    ['Edg/', 'Edge'],
+    ['OPR/', 'Opera'],
+    ['Firefox/', 'Firefox'],
+    ['Chrome/', 'Chrome'],
+    ['Safari/', 'Safari']
+  ].find(([marker]) => userAgent.includes(marker))?.[1]
+
+  const os = [
+    ['iPhone', 'iOS'],
+    ['iPad', 'iPadOS'],
+    ['Android', 'Android'],
+    ['Windows', 'Windows'],
+    ['Mac OS X', 'macOS'],
+    ['CrOS', 'ChromeOS'],
+    ['Linux', 'Linux']
+  ].find(([marker]) => userAgent.includes(marker))?.[1]
+
+  if (browser && os) return `${browser} on ${os}`
+  return browser || os || 'Unknown device'
+}
@@ -0,0 +1,89 @@
+// SM-2 spaced-repetition scheduling for flashcards. Pure functions so the
+// review API and the client (for interval previews) share the same math.
+
+export const reviewRatings = ['again', 'hard', 'good', 'easy'] as const
+
+export type ReviewRating = typeof reviewRatings[number]
+
+export interface ReviewState {
+  ease: number
+  interval: number // Days until the next review
+  repetitions: number // Consecutive successful reviews
+  lapses: number
+  dueAt: Date
+}
+
+const MIN_EASE = 1.3
+const RELEARN_DELAY_MS = 10 * 60 * 1000 // Failed cards come back in 10 minutes
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+// SM-2 response quality for each rating (0-5 scale)
+const quality: Record<ReviewRating, number> = {
+  again: 0,
+  hard: 3,
+  good: 4,
+  easy: 5
+}
+
+export function scheduleReview(
+  state: Omit<ReviewState, 'dueAt'>,
+  rating: ReviewRating,
+  now = new Date()
+): ReviewState {
+  const q = quality[rating]
+  const ease = Math.max(MIN_EASE, state.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)))
+
+  if (rating === 'again') {
+    return {
+      ease,
+      interval: 0,
+      repetitions: 0,
+      lapses: state.lapses + 1,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS)
+    }
+  }
+
+  let interval: number
+  if (state.repetitions === 0) {
+    interval = rating === 'easy' ? 4 : 1
+  } else if (state.repetitions === 1) {
+    interval = rating === 'hard' ? 3 : rating === 'easy' ? 8 : 6
+  } else if (rating === 'hard') {
+    interval = Math.max(state.interval + 1, Math.round(state.interval * 1.2))
+  } else {
+    interval = Math.round(state.interval * ease * (rating === 'easy' ? 1.3 : 1))
+  }
+
+  return {
+    ease,
+    interval,
+    repetitions: state.repetitions + 1,
+    lapses: state.lapses,
+    dueAt: new Date(now.getTime() + interval * DAY_MS)
+  }
+}
+
+// Cards due before this instant count as "due today" for someone whose clock
+// is timezoneOffset minutes behind UTC (Date#getTimezoneOffset, so UTC-5 is
+// 300). Defaults to this runtime's time zone, which on the server is not the
+// student's: API routes take it from the request with timezoneOffsetParam().
+export function endOfToday(now = new Date(), timezoneOffset = now.getTimezoneOffset()): Date {
+  const end = new Date(now.getTime() - timezoneOffset * MINUTE_MS)
+  end.setUTCHours(23, 59, 59, 999)
+  return new Date(end.getTime() + timezoneOffset * MINUTE_MS)
+}
+
+// The client's ?tzOffset= (its getTimezoneOffset()), or 0 for UTC when it is
+// missing or outside the real range of UTC-12 to UTC+14
+export function timezoneOffsetParam(searchParams: URLSearchParams): number {
+  const offset = Number(searchParams.get('tzOffset'))
+  return Number.isInteger(offset) && offset >= -14 * 60 && offset <= 12 * 60 ? offset : 0
+}
+
+export function formatInterval(days: number): string {
+  if (days === 0) return '10m'
+  if (days < 30) return `${days}d`
+  if (days < 365) return `${Math.round(days / 30)}mo`
+  return `${Math.round(days / 365 * 10) / 10}y`
+}
@@ -0,0 +1,229 @@
+import { z } from 'zod'
+import { questionTypes } from './quiz'
+import { resourceLevels, resourceTypes } from './resources'
+
+// Tool registry shared by the text chat, /api/functions and the realtime voice client.
+// This module must stay client-safe: implementations live in lib/functions.ts.
+
+// Client caches a tool can make stale, stored in lib/cache as `${name}:${userId}`
+export type ToolCache = 'quizzes' | 'flashcards'
+
+export interface ToolDefinition {
+  description: string
+  parameters: z.ZodObject // userId and conversationId are injected server-side
+  access: 'read' | 'write' // Write tools have side effects and never run concurrently
+  requiresAuth: boolean
+  invalidates: ToolCache[]
+  generates?: string // Parameter counting the AI-generated items, charged to the daily quota
+  capability: string // One line for the system prompt's capability list
+  instructions?: string // Extra guidance appended to the system prompt
+}
+
+// The YYYY-MM-DD date in the westernmost time zone (UTC-12). A date on or after
+// it is today or later for every student, wherever they are.
+function earliestToday(): string {
+  return new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+export const tools = {
+  create_quiz: {
+    description: 'Create a new quiz on a specific subject and topic. Generate questions based on the topic and difficulty level.',
+    parameters: z.object({
+      subject: z.string().trim().min(1).describe('The subject area (e.g., Math, Science, History)'),
+      topic: z.string().trim().min(1).describe('The specific topic within the subject'),
+      questionCount: z.number().int().min(1).max(20).default(5).describe('Number of questions to generate'),
+      difficulty: z.enum(['easy', 'medium', 'hard']).describe('Difficulty level of the quiz'),
+      questionTypes: z.array(z.enum(questionTypes)).min(1).default(['multiple_choice'])
+        .describe('Question types to mix into the quiz. Use numeric for calculations and short_answer for explanations')
+    }),
+    access: 'write',
+    requiresAuth: true,
+    invalidates: ['quizzes'],
+    generates: 'questionCount',
+    capability: 'Creating and managing quizzes',
+    instructions: `QUIZ CREATION: When a user wants to test their knowledge:
+- ALWAYS use the create_quiz function to generate a quiz in the database
+- NEVER make up quiz questions in the chat - ask stored questions with start_quiz instead
+- Tell them "I've created a quiz for you!" and offer to quiz them right here, or they can take it in the Quizzes tab
+- Suggest creating a quiz when:
+  * You've finished teaching a complete topic or lesson
+  * User explicitly asks for a quiz or practice questions
+  * After reviewing material or providing explanations on a subject
+  * User mentions preparing for a test or exam
+- ONLY suggest quizzes ONCE per topic - don't repeat if user declines
+- Don't offer both flashcards AND quiz in the same response - choose the most appropriate one
+- Pick questionTypes that suit the subject: numeric for math and science calculations, short_answer for
+  concepts students should explain, cloze for terminology, true_false and multi_select for quick checks`
+  },
+  log_study_session: {
+    description: 'Log a completed study session with duration and subject',
+    parameters: z.object({
+      subject: z.string().trim().min(1).describe('The subject studied'),
+      topic: z.string().trim().min(1).optional().describe('The specific topic studied'),
+      duration: z.number().int().positive().max(24 * 60).describe('Duration of the session in whole minutes')
+    }),
+    access: 'write',
+    requiresAuth: true,
+    invalidates: [],
+    capability: 'Tracking study sessions'
+  },
+  get_study_progress: {
+    description: 'Get study progress statistics for a user, optionally filtered by subject',
+    parameters: z.object({
+      subject: z.string().trim().min(1).optional().describe('Optional: filter by specific subject'),
+      days: z.number().int().positive().max(365).default(30).describe('Number of days to look back (default 30)')
+    }),
+    access: 'read',
+    requiresAuth: true,
+    invalidates: [],
+    capability: 'Reporting study progress'
+  },
+  set_study_goal: {
+    description: 'Create a new study goal with a target and deadline',
+    parameters: z.object({
+      subject: z.string().trim().min(1).describe('The subject for the goal'),
+      targetHours: z.number().int().positive().max(1000).describe('Target study hours'),
+      deadline: z.string()
+        .describe('Deadline in ISO format (YYYY-MM-DD or a full ISO timestamp)')
+        .refine(value => /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value)), 'Deadline must be a valid ISO date')
+        // Compared as calendar dates: a deadline of today is midnight UTC, already past west of UTC
+        .refine(value => value.slice(0, 10) >= earliestToday(), 'Deadline must be today or later')
+    }),
+    access: 'write',
+    requiresAuth: true,
+    invalidates: [],
+    capability: 'Setting and monitoring study goals'
+  },
+  get_quiz_history: {
+    description: 'Get quiz attempt history for a user, including scores',
+    parameters: z.object({
+      subject: z.string().trim().min(1).optional().describe('Optional: filter by subject'),
+      limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of results to return')
+    }),
+    access: 'read',
+    requiresAuth: true,
+    invalidates: [],
+    capability: 'Reviewing quiz history and scores'
+  },
+  recommend_review_topics: {
+    description: 'Analyze past quizzes and study sessions to recommend topics that need review based on scores and time since last studied',
+    parameters: z.object({
+      subject: z.string().trim().min(1).optional().describe('Optional: focus on specific subject')
+    }),
+    access: 'read',
+    requiresAuth: true,
+    invalidates: [],
+    capability: 'Recommending topics for review'
+  },
+  search_learning_resources: {
+    description: 'Search the curated catalog of learning resources (articles, videos, tutorials, courses) on a specific topic',
+    parameters: z.object({
+      topic: z.string().trim().min(1).describe('The topic to search for, in a few keywords'),
+      resourceType: z.enum([...resourceTypes, 'any']).default('any').describe('Type of resource to search for'),
+      level: z.enum(resourceLevels).optional().describe("Optional: prefer resources at the student's level")
+    }),
+    access: 'read',
+    requiresAuth: false,
+    invalidates: [],
+    capability: 'Searching for learning resources',
+    instructions: `LEARNING RESOURCES: Only share links returned by search_learning_resources.
+- NEVER invent or guess URLs, video links or article titles
+- If the search finds nothing, say so and offer to explain the topic yourself instead`
+  },
+  generate_flashcards: {
+    description: 'Generate flashcards from study material to help memorize key concepts. Use when the user wants to memorize facts, definitions, or concepts from the current topic.',
+    parameters: z.object({
+      topic: z.string().trim().min(1).describe('The topic these flashcards cover'),
+      content: z.string().trim().min(1).describe('The study material or concepts to create flashcards from. Include all the key facts, definitions, and concepts that should be turned into flashcards.'),
+      count: z.number().int().min(1).max(30).default(5).describe('Number of flashcards to generate')
+    }),
+    access: 'write',
+    requiresAuth: true,
+    invalidates: ['flashcards'],
+    generates: 'count',
+    capability: 'Generating flashcards for memorization',
+    instructions: `FLASHCARD SUGGESTIONS: Offer to generate flashcards when:
+- You've just explained a concept with multiple facts, definitions, or terms
+- User completed a quiz with score < 75%
+- User mentions needing to memorize something or studying for an exam
+- ONLY suggest flashcards ONCE per topic - don't repeat if user declines`
+  },
+  start_quiz: {
+    description: 'Start taking a saved quiz in this conversation. Returns the first question to ask.',
+    parameters: z.object({
+      quizId: z.string().min(1).optional().describe('The quiz to take, e.g. the quizId returned by create_quiz'),
+      topic: z.string().trim().min(1).optional().describe('Optional: take the newest quiz on this topic when no quizId is given')
+    }),
+    access: 'write',
+    requiresAuth: true,
+    invalidates: [],
+    capability: 'Quizzing students conversationally, one question at a time',
+    instructions: `CONVERSATIONAL QUIZZES: When a user wants to be quizzed here or by voice:
+- Call start_quiz (with the quizId from create_quiz, or a topic) and ask the returned question exactly as written, including lettered options
+- Ask ONE question at a time and wait for the answer. Never reveal an answer before the student responds
+- Pass the student's answer to answer_quiz_question as they gave it; write spoken numbers as digits (e.g. "nine point eight" -> "9.8")
+- Share the feedback briefly, then ask the next question
+- After the last question, or if the student wants to stop, call finish_quiz and tell them their score`
+  },
+  answer_quiz_question: {
+    description: "Grade the student's answer to the current question of the quiz in progress. Returns feedback and the next question.",
+    parameters: z.object({
+      answer: z.string().trim().min(1).describe('The student\'s answer: an option letter, true/false, a number, the missing word(s) or a short explanation'),
+      quizSessionId: z.string().min(1).optional().describe('Optional: the quizSessionId from start_quiz (defaults to the quiz in progress)')
+    }),
+    access: 'write',
+    requiresAuth: true,
+    invalidates: [],
+    capability: 'Quizzing students conversationally, one question at a time'
+  },
+  finish_quiz: {
+    description: 'Finish the quiz in progress and record the attempt and score. Unanswered questions count as wrong.',
+    parameters: z.object({
+      quizSessionId: z.string().min(1).optional().describe('Optional: the quizSessionId from start_quiz (defaults to the quiz in progress)')
+    }),
+    access: 'write',
+    requiresAuth: true,
+    invalidates: ['quizzes'],
+    capability: 'Quizzing students conversationally, one question at a time'
+  }
+} satisfies Record<string, ToolDefinition>
+
+export type ToolName = keyof typeof tools
+
+export function isToolName(name: string): name is ToolName {
+  return Object.prototype.hasOwnProperty.call(tools, name)
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return isToolName(name) ? tools[name] : undefined
+}
+
+// Define function schemas for the model
+export const functions = Object.entries(tools).map(([name, tool]) => ({
+  name,
+  description: tool.description,
+  parameters: toJSONParameters(tool.parameters)
+}))
+
+function toJSONParameters(schema: z.ZodObject): Record<string, unknown> {
+  const parameters: Record<string, unknown> = z.toJSONSchema(schema, { io: 'input' })
+  delete parameters.$schema
+  return parameters
+}
+
+// Client cache keys to invalidate after a tool has run
+export function toolCacheKeys(name: string, userId: string): string[] {
+  return (getTool(name)?.invalidates || []).map(cacheName => `${cacheName}:${userId}`)
+}
+
+// Capability list and per-tool guidance for system prompts
+export function toolPromptSection(): string {
+  const definitions: ToolDefinition[] = Object.values(tools)
+  const capabilities = [...new Set(definitions.map(tool => `- ${tool.capability}`))].join('\n')
+  const instructions = definitions
+    .filter(tool => tool.instructions)
+    .map(tool => tool.instructions)
+    .join('\n\n')
+
+  return `${capabilities}\n\n${instructions}`
+}
@@ -0,0 +1,155 @@
+import { createHash } from 'crypto'
+import { prisma } from './db'
+import { revokeAllApiTokens } from './apiTokens'
+import { createAccountToken, hashPassword, verifyAccountToken } from './auth'
+import { sendMail } from './mail'
+import { revokeAllSessions } from './sessions'
+
+const EMAIL_VERIFICATION_TTL_SECONDS = 60 * 60 * 24 // 24 hours
+const PASSWORD_RESET_TTL_SECONDS = 60 * 60 // 1 hour
+const ACCOUNT_DELETION_TTL_SECONDS = 60 * 60 // 1 hour
+
+type AccountUser = { id: string; email: string; name: string | null; password: string }
+
+// Short hash of the account state a token depends on: the email address for
+// verification, the password hash for resets (so a reset link works once), the
+// last update for deletion (which updates the account, so that link works once)
+function fingerprint(value: string) {
+  return createHash('sha256').update(value).digest('hex').slice(0, 16)
+}
+
+function appUrl(path: string, token: string) {
+  const url = new URL(path, process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000')
+  url.searchParams.set('token', token)
+  return url.toString()
+}
+
+export async function sendVerificationEmail(user: AccountUser) {
+  const token = await createAccountToken(
+    'verify-email',
+    user.id,
+    fingerprint(user.email),
+    EMAIL_VERIFICATION_TTL_SECONDS
+  )
+  const link = appUrl('/verify-email', token)
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your TutorFlow email address',
+    text: [
+      `Hi ${user.name || 'there'},`,
+      '',
+      'Confirm your email address by opening this link:',
+      link,
+      '',
+      'The link expires in 24 hours. If you did not create a TutorFlow account, you can ignore this email.'
+    ].join('\n')
+  })
+}
+
+// Returns false when the token is invalid, expired or for an old email address
+export async function confirmEmailVerification(token: string): Promise<boolean> {
+  const claims = await verifyAccountToken('verify-email', token)
+  if (!claims) return false
+
+  const user = await prisma.user.findUnique({ where: { id: claims.userId } })
+  if (!user || fingerprint(user.email) !== claims.fingerprint) return false
+
+  if (!user.emailVerifiedAt) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerifiedAt: new Date() }
+    })
+  }
+
+  return true
+}
+
+export async function sendPasswordResetEmail(user: AccountUser) {
+  const token = await createAccountToken(
+    'reset-password',
+    user.id,
+    fingerprint(user.password),
+    PASSWORD_RESET_TTL_SECONDS
+  )
+  const link = appUrl('/reset-password', token)
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your TutorFlow password',
+    text: [
+      `Hi ${user.name || 'there'},`,
+      '',
+      'Someone asked to reset the password for your TutorFlow account. Choose a new password here:',
+      link,
+      '',
+      'The link expires in 1 hour and can only be used once. If you did not ask for this, you can ignore this email.'
+    ].join('\n')
+  })
+}
+
+// Sets the new password, signs the account out everywhere and revokes its API
+// tokens, since whoever knew the old password could have made them. Returns false
+// when the token is invalid, expired or already used.
+export async function resetPassword(token: string, password: string): Promise<boolean> {
+  const claims = await verifyAccountToken('reset-password', token)
+  if (!claims) return false
+
+  const user = await prisma.user.findUnique({ where: { id: claims.userId } })
+  if (!user || fingerprint(user.password) !== claims.fingerprint) return false
+
+  // Matching on the old hash means only one of two concurrent resets wins
+  const { count } = await prisma.user.updateMany({
+    where: { id: user.id, password: user.password },
+    data: {
+      password: await hashPassword(password),
+      // Following the emailed link proves they own the address
+      emailVerifiedAt: user.emailVerifiedAt ?? new Date()
+    }
+  })
+  if (count === 0) return false
+
+  await revokeAllSessions(user.id)
+  await revokeAllApiTokens(user.id)
+
+  return true
+}
+
+// For accounts without a password they know (created through single sign-on),
+// following this link stands in for the password when deleting the account
+export async function sendAccountDeletionEmail(user: Omit<AccountUser, 'password'> & { updatedAt: Date }) {
+  const token = await createAccountToken(
+    'delete-account',
+    user.id,
+    fingerprint(user.updatedAt.toISOString()),
+    ACCOUNT_DELETION_TTL_SECONDS
+  )
+  const link = appUrl('/account', token)
+
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm deleting your TutorFlow account',
+    text: [
+      `Hi ${user.name || 'there'},`,
+      '',
+      'Someone asked to delete your TutorFlow account. To confirm, open this link while signed in:',
+      link,
+      '',
+      'The link expires in 1 hour and can only be used once. If you did not ask for this, you can ignore this email.'
+    ].join('\n')
+  })
+}
+
+// Whether the token confirms deleting this user's account. False when it is
+// invalid, expired, for someone else or already used.
+export async function verifyAccountDeletion(userId: string, token: string): Promise<boolean> {
+  const claims = await verifyAccountToken('delete-account', token)
+  if (!claims || claims.userId !== userId) return false
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { updatedAt: true }
+  })
+
+  return !!user && fingerprint(user.updatedAt.toISOString()) === claims.fingerprint
+}
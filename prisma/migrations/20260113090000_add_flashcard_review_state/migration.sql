@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Flashcard" ADD COLUMN     "dueAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "ease" DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+ADD COLUMN     "interval" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lapses" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastReviewedAt" TIMESTAMP(3),
+ADD COLUMN     "repetitions" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Flashcard_setId_dueAt_idx" ON "Flashcard"("setId", "dueAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "QuizAttempt" ADD COLUMN     "startedAt" TIMESTAMP(3),
+ADD COLUMN     "timeTakenSeconds" INTEGER;
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "LearningResource" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "description" TEXT,
+    "type" TEXT NOT NULL,
+    "level" TEXT,
+    "subject" TEXT,
+    "topics" TEXT[],
+    "source" TEXT,
+    "searchVector" tsvector,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LearningResource_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LearningResource_url_key" ON "LearningResource"("url");
+
+-- CreateIndex
+CREATE INDEX "LearningResource_searchVector_idx" ON "LearningResource" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "LearningResource_type_level_idx" ON "LearningResource"("type", "level");
+
+-- Keep the full-text search vector in sync: title and topics rank above subject and description
+CREATE FUNCTION "LearningResource_searchVector_update"() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(NEW."topics", ' ')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW."subject", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW."description", '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "LearningResource_searchVector_trigger"
+BEFORE INSERT OR UPDATE ON "LearningResource"
+FOR EACH ROW EXECUTE FUNCTION "LearningResource_searchVector_update"();
@@ -0,0 +1,100 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "role" TEXT NOT NULL DEFAULT 'student';
+
+-- AlterTable
+ALTER TABLE "QuizAttempt" ADD COLUMN     "userId" TEXT;
+
+-- Existing attempts were taken by the quiz's owner
+UPDATE "QuizAttempt" SET "userId" = "Quiz"."userId" FROM "Quiz" WHERE "Quiz"."id" = "QuizAttempt"."quizId";
+
+ALTER TABLE "QuizAttempt" ALTER COLUMN "userId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "FlashcardSet" ADD COLUMN     "assignmentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Classroom" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "teacherId" TEXT NOT NULL,
+    "joinCode" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Classroom_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ClassroomMember" (
+    "id" TEXT NOT NULL,
+    "classroomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClassroomMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Assignment" (
+    "id" TEXT NOT NULL,
+    "classroomId" TEXT NOT NULL,
+    "quizId" TEXT,
+    "flashcardSetId" TEXT,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Assignment_pkey" PRIMARY KEY ("id"),
+    -- An assignment is either a quiz or a flashcard set
+    CONSTRAINT "Assignment_item_check" CHECK (("quizId" IS NULL) <> ("flashcardSetId" IS NULL))
+);
+
+-- CreateIndex
+CREATE INDEX "QuizAttempt_userId_quizId_idx" ON "QuizAttempt"("userId", "quizId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FlashcardSet_assignmentId_userId_key" ON "FlashcardSet"("assignmentId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Classroom_joinCode_key" ON "Classroom"("joinCode");
+
+-- CreateIndex
+CREATE INDEX "Classroom_teacherId_idx" ON "Classroom"("teacherId");
+
+-- CreateIndex
+CREATE INDEX "ClassroomMember_userId_idx" ON "ClassroomMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClassroomMember_classroomId_userId_key" ON "ClassroomMember"("classroomId", "userId");
+
+-- CreateIndex
+CREATE INDEX "Assignment_classroomId_dueAt_idx" ON "Assignment"("classroomId", "dueAt");
+
+-- CreateIndex
+CREATE INDEX "Assignment_quizId_idx" ON "Assignment"("quizId");
+
+-- CreateIndex
+CREATE INDEX "Assignment_flashcardSetId_idx" ON "Assignment"("flashcardSetId");
+
+-- AddForeignKey
+ALTER TABLE "QuizAttempt" ADD CONSTRAINT "QuizAttempt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FlashcardSet" ADD CONSTRAINT "FlashcardSet_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "Assignment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Classroom" ADD CONSTRAINT "Classroom_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClassroomMember" ADD CONSTRAINT "ClassroomMember_classroomId_fkey" FOREIGN KEY ("classroomId") REFERENCES "Classroom"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClassroomMember" ADD CONSTRAINT "ClassroomMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Assignment" ADD CONSTRAINT "Assignment_classroomId_fkey" FOREIGN KEY ("classroomId") REFERENCES "Classroom"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Assignment" ADD CONSTRAINT "Assignment_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Assignment" ADD CONSTRAINT "Assignment_flashcardSetId_fkey" FOREIGN KEY ("flashcardSetId") REFERENCES "FlashcardSet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "deleteAfter" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "User_deleteAfter_idx" ON "User"("deleteAfter");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "ToolInvocation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "conversationId" TEXT,
+    "toolName" TEXT NOT NULL,
+    "arguments" JSONB,
+    "result" JSONB,
+    "error" TEXT,
+    "durationMs" INTEGER NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ToolInvocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ToolInvocation_conversationId_createdAt_idx" ON "ToolInvocation"("conversationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ToolInvocation_userId_createdAt_idx" ON "ToolInvocation"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ToolInvocation" ADD CONSTRAINT "ToolInvocation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ToolInvocation" ADD CONSTRAINT "ToolInvocation_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
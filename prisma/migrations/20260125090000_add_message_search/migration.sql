@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "searchVector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "Message_searchVector_idx" ON "Message" USING GIN ("searchVector");
+
+-- Keep the full-text search vector in sync with the message content
+CREATE FUNCTION "Message_searchVector_update"() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" := to_tsvector('english', coalesce(NEW."content", ''));
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Message_searchVector_trigger"
+BEFORE INSERT OR UPDATE OF "content" ON "Message"
+FOR EACH ROW EXECUTE FUNCTION "Message_searchVector_update"();
+
+-- Index existing messages
+UPDATE "Message" SET "searchVector" = to_tsvector('english', coalesce("content", ''));
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "subject" TEXT,
+ADD COLUMN     "titledAt" TIMESTAMP(3),
+ADD COLUMN     "topics" TEXT[];
+
+-- CreateIndex
+CREATE INDEX "Conversation_userId_subject_idx" ON "Conversation"("userId", "subject");
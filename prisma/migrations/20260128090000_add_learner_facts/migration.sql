@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "factsThrough" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "LearnerFact" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LearnerFact_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LearnerFact_userId_kind_content_key" ON "LearnerFact"("userId", "kind", "content");
+
+-- AddForeignKey
+ALTER TABLE "LearnerFact" ADD CONSTRAINT "LearnerFact_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "RealtimeCall" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "conversationId" TEXT,
+    "paidUntil" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RealtimeCall_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RealtimeCall_userId_endedAt_idx" ON "RealtimeCall"("userId", "endedAt");
+
+-- CreateIndex
+CREATE INDEX "RealtimeCall_endedAt_paidUntil_idx" ON "RealtimeCall"("endedAt", "paidUntil");
+
+-- AddForeignKey
+ALTER TABLE "RealtimeCall" ADD CONSTRAINT "RealtimeCall_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "QuizAttempt" ADD COLUMN     "attemptTokenId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuizAttempt_attemptTokenId_key" ON "QuizAttempt"("attemptTokenId");
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AUTH_COOKIES, IDENTITY_HEADERS, setResponseAuthCookies, verifyToken } from '@/lib/auth'
+import { refreshSession, type SessionTokens } from '@/lib/sessions'
+import { requiredScope, verifyApiToken } from '@/lib/apiTokens'
+
+// Pages and API routes that work without signing in
+const PUBLIC_PATHS = [
+  '/',
+  '/login',
+  '/register',
+  '/forgot-password',
+  '/reset-password',
+  '/verify-email',
+  '/api/auth/login',
+  '/api/auth/register',
+  '/api/auth/logout',
+  '/api/auth/oidc',
+  '/api/auth/oidc/login',
+  '/api/auth/oidc/callback',
+  '/api/auth/password-reset/request',
+  '/api/auth/password-reset/confirm',
+  '/api/auth/verify-email/confirm',
+  '/api/cron/purge-accounts', // Checks CRON_SECRET itself
+  '/api/cron/realtime-calls' // Likewise
+]
+
+// Pages signed-in users are sent away from
+const GUEST_ONLY_PATHS = ['/login', '/register']
+
+// API requests with a personal access token instead of cookies. The token must
+// be valid and carry the scope for the route; there's no fallback to cookies.
+async function authenticateApiToken(request: NextRequest, requestHeaders: Headers, token: string) {
+  const apiUser = await verifyApiToken(token)
+  if (!apiUser) {
+    return NextResponse.json({ error: 'Invalid or expired API token' }, { status: 401 })
+  }
+
+  const scope = requiredScope(request.method, request.nextUrl.pathname)
+  if (!scope) {
+    return NextResponse.json({ error: 'This endpoint is not available to API tokens' }, { status: 403 })
+  }
+  if (!apiUser.scopes.includes(scope)) {
+    return NextResponse.json({ error: `This API token needs the ${scope} scope` }, { status: 403 })
+  }
+
+  requestHeaders.set(IDENTITY_HEADERS.userId, apiUser.userId)
+  requestHeaders.set(IDENTITY_HEADERS.apiTokenId, apiUser.tokenId)
+  requestHeaders.set(IDENTITY_HEADERS.role, apiUser.role)
+  requestHeaders.set(IDENTITY_HEADERS.email, encodeURIComponent(apiUser.email))
+  if (apiUser.name) requestHeaders.set(IDENTITY_HEADERS.name, encodeURIComponent(apiUser.name))
+
+  return NextResponse.next({ request: { headers: requestHeaders } })
+}
+
+// Verifies the auth cookie once per request, exchanging the refresh token for
+// new tokens once the access token has expired. Signed-out visitors are sent to
+// /login?next=... (pages) or get a 401 (API); signed-in requests carry the
+// user's identity to route handlers in IDENTITY_HEADERS. Scripts can call the
+// API with `Authorization: Bearer <personal access token>` instead.
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+
+  // Never trust identity headers sent by the client
+  const requestHeaders = new Headers(request.headers)
+  Object.values(IDENTITY_HEADERS).forEach(name => requestHeaders.delete(name))
+
+  // Public routes that read the header themselves (the cron job) are left alone
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1]
+  if (bearer && pathname.startsWith('/api/') && !PUBLIC_PATHS.includes(pathname)) {
+    return authenticateApiToken(request, requestHeaders, bearer)
+  }
+
+  const accessToken = request.cookies.get(AUTH_COOKIES.access)?.value
+  const refreshToken = request.cookies.get(AUTH_COOKIES.refresh)?.value
+
+  let user = accessToken ? await verifyToken(accessToken) : null
+  let refreshed: SessionTokens | null = null
+
+  if (!user && refreshToken) {
+    refreshed = await refreshSession(refreshToken, request.headers)
+    user = refreshed?.claims ?? null
+  }
+
+  // Hand out rotated tokens, or drop a refresh token that no longer works
+  const withCookies = (response: NextResponse) => {
+    if (refreshed) {
+      setResponseAuthCookies(response, refreshed)
+    } else if (!user && refreshToken) {
+      response.cookies.delete(AUTH_COOKIES.refresh)
+    }
+    return response
+  }
+
+  if (!user) {
+    if (PUBLIC_PATHS.includes(pathname)) {
+      return withCookies(NextResponse.next({ request: { headers: requestHeaders } }))
+    }
+
+    if (pathname.startsWith('/api/')) {
+      return withCookies(NextResponse.json({ error: 'Not authenticated' }, { status: 401 }))
+    }
+
+    const loginUrl = new URL('/login', request.url)
+    loginUrl.searchParams.set('next', pathname + search)
+    return withCookies(NextResponse.redirect(loginUrl))
+  }
+
+  if (GUEST_ONLY_PATHS.includes(pathname)) {
+    return withCookies(NextResponse.redirect(new URL('/conversations', request.url)))
+  }
+
+  requestHeaders.set(IDENTITY_HEADERS.userId, user.userId)
+  requestHeaders.set(IDENTITY_HEADERS.sessionId, user.sessionId)
+  requestHeaders.set(IDENTITY_HEADERS.role, user.role)
+  if (user.email) requestHeaders.set(IDENTITY_HEADERS.email, encodeURIComponent(user.email))
+  if (user.name) requestHeaders.set(IDENTITY_HEADERS.name, encodeURIComponent(user.name))
+
+  return withCookies(NextResponse.next({ request: { headers: requestHeaders } }))
+}
+
+export const config = {
+  // Everything except build assets and static files
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)']
+}